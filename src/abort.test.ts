@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { abortable, sleep } from "./abort.js";
+
+describe("sleep", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve after the delay", async () => {
+    const done = vi.fn();
+    void sleep(100).then(done);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(done).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it("should reject with the abort reason when aborted", async () => {
+    const controller = new AbortController();
+    const pending = sleep(10_000, controller.signal);
+
+    controller.abort(new Error("cancelled"));
+    await expect(pending).rejects.toThrow("cancelled");
+  });
+
+  it("should reject immediately for an already aborted signal", async () => {
+    await expect(sleep(10, AbortSignal.abort(new Error("gone")))).rejects.toThrow("gone");
+  });
+});
+
+describe("abortable", () => {
+  it("should pass through the promise's result", async () => {
+    await expect(abortable(Promise.resolve(1), new AbortController().signal)).resolves.toBe(1);
+  });
+
+  it("should reject as soon as the signal aborts", async () => {
+    const controller = new AbortController();
+    const pending = abortable(new Promise(() => {}), controller.signal);
+
+    controller.abort(new Error("cancelled"));
+    await expect(pending).rejects.toThrow("cancelled");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { mapSettled, renderTemplate, templateVariables } from "./batch.js";
+
+describe("renderTemplate", () => {
+  it("should fill every placeholder from the row", () => {
+    expect(renderTemplate("A {{color}} {{ product }} on {{color}}", { color: "red", product: "mug" }))
+      .toBe("A red mug on red");
+    expect(renderTemplate("Size {{n}}", { n: 3 })).toBe("Size 3");
+  });
+
+  it("should list variables once in order of use", () => {
+    expect(templateVariables("{{b}} {{a}} {{b}}")).toEqual(["b", "a"]);
+  });
+
+  it("should reject rows missing a variable", () => {
+    expect(() => renderTemplate("A {{color}} {{product}}", { color: "red" })).toThrow("Missing template variable: product");
+  });
+});
+
+describe("mapSettled", () => {
+  it("should keep input order and settle failures individually", async () => {
+    const results = await mapSettled([30, 10, 20], 2, async (ms, index) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      if (index === 1) throw new Error("boom");
+      return ms;
+    });
+
+    expect(results).toEqual([
+      { status: "fulfilled", value: 30 },
+      { status: "rejected", reason: new Error("boom") },
+      { status: "fulfilled", value: 20 },
+    ]);
+  });
+
+  it("should never exceed the concurrency limit", async () => {
+    let active = 0;
+    let peak = 0;
+    await mapSettled(Array.from({ length: 8 }, (_, i) => i), 3, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it("should not start items after the signal aborts", async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    const results = await mapSettled([0, 1, 2], 1, async (item) => {
+      started.push(item);
+      controller.abort();
+    }, controller.signal);
+
+    expect(started).toEqual([0]);
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected", "rejected"]);
+  });
+});
@@ -0,0 +1,48 @@
+export const MAX_BATCH_ITEMS = 100;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+export type TemplateRow = Record<string, string | number | boolean>;
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** Names of the `{{variable}}` placeholders in `template`, in order of first use. */
+export const templateVariables = (template: string): string[] =>
+  [...new Set([...template.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+
+/** Fill `{{variable}}` placeholders from `row`; throws if the row lacks one. */
+export const renderTemplate = (template: string, row: TemplateRow): string => {
+  const missing = templateVariables(template).filter((name) => !(name in row));
+  if (missing.length > 0) throw new Error(`Missing template variable${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+  return template.replace(PLACEHOLDER, (_, name: string) => String(row[name]));
+};
+
+/**
+ * Run `fn` over `items` with at most `concurrency` calls in flight, settling
+ * every item in input order. Items not yet started when `signal` aborts are
+ * rejected with its reason instead of being run.
+ */
+export const mapSettled = async <T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<PromiseSettledResult<R>[]> => {
+  const results = new Array<PromiseSettledResult<R>>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        signal?.throwIfAborted();
+        results[index] = { status: "fulfilled", value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+};
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BudgetExceededError, CreditBudget, parseToolLimits } from "./budget.js";
+
+describe("parseToolLimits", () => {
+  it("should parse tool=credits pairs", () => {
+    expect(parseToolLimits("generate_image=1000, creative_upscale = 250")).toEqual({
+      generate_image: 1000,
+      creative_upscale: 250,
+    });
+  });
+
+  it("should ignore invalid pairs", () => {
+    expect(parseToolLimits("generate_image=abc,=5,vectorize_image")).toEqual({});
+    expect(parseToolLimits(undefined)).toEqual({});
+  });
+});
+
+describe("CreditBudget", () => {
+  it("should allow everything without limits", async () => {
+    const budget = new CreditBudget();
+    await budget.charge("generate_image", 10_000);
+    await expect(budget.assertAvailable("generate_image")).resolves.toBeUndefined();
+  });
+
+  it("should refuse once the session budget is reached", async () => {
+    const budget = new CreditBudget({ session: 80 });
+    await budget.charge("generate_image", 40);
+    await expect(budget.assertAvailable("generate_image")).resolves.toBeUndefined();
+
+    await budget.charge("generate_image", 40);
+    await expect(budget.assertAvailable("generate_image")).rejects.toThrow(BudgetExceededError);
+  });
+
+  it("should refuse calls whose estimate would exceed a budget", async () => {
+    const budget = new CreditBudget({ daily: 100 });
+    await budget.charge("generate_image", 40);
+
+    const error = await budget.assertAvailable("generate_image", 80).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect((error as BudgetExceededError).scope).toBe("daily");
+    expect((error as BudgetExceededError).message).toContain("needs about 80 more");
+  });
+
+  it("should enforce per-tool limits only for that tool", async () => {
+    const budget = new CreditBudget({ perTool: { creative_upscale: 250 } });
+    await budget.charge("creative_upscale", 250);
+
+    await expect(budget.assertAvailable("creative_upscale")).rejects.toThrow("creative_upscale budget");
+    await expect(budget.assertAvailable("generate_image")).resolves.toBeUndefined();
+  });
+
+  it("should check several tools' estimates against their own caps and their total against the rest", async () => {
+    const budget = new CreditBudget({ session: 100, perTool: { vectorize_image: 5 } });
+
+    await expect(budget.assertAvailableAll({ generate_image: 40, remove_background: 10 })).resolves.toBeUndefined();
+    await expect(budget.assertAvailableAll({ generate_image: 40, vectorize_image: 10 })).rejects.toThrow("vectorize_image budget");
+    await expect(budget.assertAvailableAll({ generate_image: 80, remove_background: 30 })).rejects.toThrow("needs about 110 more");
+  });
+
+  it("should count reserved credits toward every cap until settled", async () => {
+    const budget = new CreditBudget({ session: 100 });
+    const first = await budget.reserve("generate_image", 80);
+
+    await expect(budget.reserve("generate_image", 40)).rejects.toThrow("80 reserved by calls in progress");
+
+    await first.settle(40);
+    const second = await budget.reserve("generate_image", 40);
+    second.release();
+    expect((await budget.status()).session.spent).toBe(40);
+    await expect(budget.assertAvailable("generate_image", 60)).resolves.toBeUndefined();
+  });
+
+  it("should report status with remaining credits", async () => {
+    const budget = new CreditBudget({ session: 100, perTool: { vectorize_image: 50 } });
+    await budget.charge("generate_image", 40);
+
+    const status = await budget.status();
+    expect(status.session).toEqual({ spent: 40, limit: 100, remaining: 60 });
+    expect(status.daily.spent).toBe(40);
+    expect(status.tools).toEqual({
+      generate_image: { spent: 40 },
+      vectorize_image: { spent: 0, limit: 50, remaining: 50 },
+    });
+  });
+
+  describe("persisted daily totals", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "recraft-budget-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should carry today's spend across instances", async () => {
+      const path = join(dir, "budget.json");
+      await new CreditBudget({ daily: 100 }, path).charge("generate_image", 100);
+
+      const restarted = new CreditBudget({ daily: 100 }, path);
+      await expect(restarted.assertAvailable("generate_image")).rejects.toThrow("daily budget");
+      expect((await restarted.status()).session.spent).toBe(0);
+    });
+
+    it("should start fresh when the stored day is stale", async () => {
+      const path = join(dir, "budget.json");
+      await writeFile(path, JSON.stringify({ day: "2000-01-01", spent: 500 }));
+
+      const budget = new CreditBudget({ daily: 100 }, path);
+      await expect(budget.assertAvailable("generate_image")).resolves.toBeUndefined();
+      await budget.charge("generate_image", 10);
+      expect(JSON.parse(await readFile(path, "utf8")).spent).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface BudgetLimits {
+  /** Max credits for the lifetime of this process. */
+  session?: number;
+  /** Max credits per UTC day. */
+  daily?: number;
+  /** Max credits per tool for the lifetime of this process. */
+  perTool?: Record<string, number>;
+}
+
+export type BudgetScope = "session" | "daily" | "tool";
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    readonly scope: BudgetScope,
+    readonly limit: number,
+    readonly spent: number,
+  ) {
+    super(message);
+  }
+}
+
+export interface BudgetUsage {
+  spent: number;
+  limit?: number;
+  remaining?: number;
+}
+
+export interface BudgetStatus {
+  session: BudgetUsage;
+  daily: BudgetUsage & { day: string };
+  tools: Record<string, BudgetUsage>;
+}
+
+interface DailyState {
+  day: string;
+  spent: number;
+}
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+const usage = (spent: number, limit?: number): BudgetUsage => ({
+  spent,
+  ...(limit !== undefined ? { limit, remaining: Math.max(0, limit - spent) } : {}),
+});
+
+/**
+ * Parse per-tool caps from "tool=credits" pairs, e.g.
+ * "creative_upscale=250,generate_image=1000". Invalid pairs are ignored.
+ */
+export const parseToolLimits = (env?: string): Record<string, number> => {
+  const limits: Record<string, number> = {};
+  if (!env) return limits;
+
+  for (const pair of env.split(",")) {
+    const [tool, value] = pair.split("=").map((s) => s.trim());
+    const limit = Number(value);
+    if (tool && value && Number.isFinite(limit) && limit >= 0) limits[tool] = limit;
+  }
+
+  return limits;
+};
+
+/** Credits held against the budget while a paid call is in flight. */
+export interface CreditReservation {
+  /** Replace the hold with the credits the call actually cost. */
+  settle(credits: number): Promise<void>;
+  /** Drop the hold after a call that failed. */
+  release(): void;
+}
+
+/**
+ * Tracks credits spent and refuses calls once a configured cap is reached.
+ * Daily totals are persisted to `statePath` when given so they survive
+ * restarts; session and per-tool totals live only in this process.
+ */
+export class CreditBudget {
+  private sessionSpent = 0;
+  private readonly toolSpent = new Map<string, number>();
+  private daily: DailyState | undefined;
+  // Estimates of calls still in flight, counted toward every cap
+  private reserved = 0;
+  private readonly toolReserved = new Map<string, number>();
+
+  constructor(
+    readonly limits: BudgetLimits = {},
+    private readonly statePath?: string,
+  ) {}
+
+  /**
+   * Throw BudgetExceededError if a call to `tool` costing `estimate` credits
+   * would go over any cap, counting credits reserved by calls in progress.
+   * Without an estimate, a call is refused once a cap has been reached.
+   */
+  async assertAvailable(tool: string, estimate = 0): Promise<void> {
+    this.check({ [tool]: estimate }, await this.loadDaily());
+  }
+
+  /**
+   * Like assertAvailable for several calls made one after another, such as
+   * the steps of a pipeline: `estimates` maps each tool to its total credits.
+   */
+  async assertAvailableAll(estimates: Record<string, number>): Promise<void> {
+    this.check(estimates, await this.loadDaily());
+  }
+
+  /**
+   * Check the budget like assertAvailable and hold `estimate` credits until
+   * the call settles or is released, so concurrent calls cannot all pass the
+   * check before any of them is charged.
+   */
+  async reserve(tool: string, estimate: number): Promise<CreditReservation> {
+    // No await between the check and the hold
+    this.check({ [tool]: estimate }, await this.loadDaily());
+    const held = Number.isFinite(estimate) && estimate > 0 ? estimate : 0;
+    this.hold(tool, held);
+
+    let open = true;
+    const release = (): void => {
+      if (!open) return;
+      open = false;
+      this.hold(tool, -held);
+    };
+    return {
+      settle: async (credits) => {
+        if (!open) return;
+        release();
+        await this.charge(tool, credits);
+      },
+      release,
+    };
+  }
+
+  async charge(tool: string, credits: number): Promise<void> {
+    if (!Number.isFinite(credits) || credits <= 0) return;
+
+    this.sessionSpent += credits;
+    this.toolSpent.set(tool, (this.toolSpent.get(tool) ?? 0) + credits);
+
+    const daily = await this.loadDaily();
+    daily.spent += credits;
+    await this.saveDaily(daily);
+  }
+
+  async status(): Promise<BudgetStatus> {
+    const daily = await this.loadDaily();
+    const tools: Record<string, BudgetUsage> = {};
+    const names = new Set([...this.toolSpent.keys(), ...Object.keys(this.limits.perTool ?? {})]);
+
+    for (const name of names) {
+      tools[name] = usage(this.toolSpent.get(name) ?? 0, this.limits.perTool?.[name]);
+    }
+
+    return {
+      session: usage(this.sessionSpent, this.limits.session),
+      daily: { day: daily.day, ...usage(daily.spent, this.limits.daily) },
+      tools,
+    };
+  }
+
+  private check(estimates: Record<string, number>, daily: DailyState): void {
+    const total = Object.values(estimates).reduce((sum, estimate) => sum + estimate, 0);
+    const checks: Array<[BudgetScope, number | undefined, number, number, string, number]> = [
+      ...Object.entries(estimates).map(([tool, estimate]): [BudgetScope, number | undefined, number, number, string, number] => [
+        "tool",
+        this.limits.perTool?.[tool],
+        this.toolSpent.get(tool) ?? 0,
+        this.toolReserved.get(tool) ?? 0,
+        `${tool} budget`,
+        estimate,
+      ]),
+      ["session", this.limits.session, this.sessionSpent, this.reserved, "session budget", total],
+      ["daily", this.limits.daily, daily.spent, this.reserved, `daily budget for ${daily.day}`, total],
+    ];
+
+    for (const [scope, limit, spent, reserved, label, estimate] of checks) {
+      if (limit === undefined) continue;
+      const used = spent + reserved;
+      if (used >= limit || used + estimate > limit) {
+        throw new BudgetExceededError(
+          `Credit ${label} exceeded: ${spent} of ${limit} credits spent` +
+            (reserved > 0 ? ` and ${reserved} reserved by calls in progress` : "") +
+            (estimate > 0 ? `, this call needs about ${estimate} more.` : "."),
+          scope,
+          limit,
+          spent,
+        );
+      }
+    }
+  }
+
+  private hold(tool: string, credits: number): void {
+    this.reserved += credits;
+    this.toolReserved.set(tool, (this.toolReserved.get(tool) ?? 0) + credits);
+  }
+
+  private async loadDaily(): Promise<DailyState> {
+    const day = today();
+    if (this.daily?.day === day) return this.daily;
+
+    let stored: DailyState | undefined;
+    if (!this.daily && this.statePath) {
+      try {
+        stored = JSON.parse(await readFile(this.statePath, "utf8")) as DailyState;
+      } catch {
+        // Missing or unreadable state starts a fresh day
+      }
+    }
+
+    // A concurrent call may have loaded the state while this one was reading
+    if (this.daily?.day === day) return this.daily;
+    this.daily = stored?.day === day && typeof stored.spent === "number" ? stored : { day, spent: 0 };
+    return this.daily;
+  }
+
+  private async saveDaily(daily: DailyState): Promise<void> {
+    if (!this.statePath) return;
+    await mkdir(dirname(this.statePath), { recursive: true });
+    await writeFile(this.statePath, JSON.stringify(daily), "utf8");
+  }
+}
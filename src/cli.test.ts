@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { parseCliOptions } from "./cli.js";
+
+describe("parseCliOptions", () => {
+  it("should default to stdio on localhost:3000", () => {
+    expect(parseCliOptions([], {})).toEqual({
+      transport: "stdio",
+      host: "127.0.0.1",
+      port: 3000,
+      authToken: undefined,
+      allowedHosts: undefined,
+      allowedOrigins: undefined,
+      sessionIdleTimeoutMs: undefined,
+    });
+  });
+
+  it("should read HTTP host, origin and session settings from env", () => {
+    const env = {
+      RECRAFT_HTTP_ALLOWED_HOSTS: "mcp.example.com, mcp.example.com:3000",
+      RECRAFT_HTTP_ALLOWED_ORIGINS: "https://app.example.com",
+      RECRAFT_HTTP_SESSION_TIMEOUT: "600",
+    };
+    expect(parseCliOptions([], env)).toMatchObject({
+      allowedHosts: ["mcp.example.com", "mcp.example.com:3000"],
+      allowedOrigins: ["https://app.example.com"],
+      sessionIdleTimeoutMs: 600_000,
+    });
+  });
+
+  it("should read flags", () => {
+    const options = parseCliOptions(["--transport", "http", "--host", "0.0.0.0", "--port", "8080"], {});
+    expect(options).toMatchObject({ transport: "http", host: "0.0.0.0", port: 8080 });
+  });
+
+  it("should fall back to env vars and let flags win", () => {
+    const env = { RECRAFT_TRANSPORT: "http", RECRAFT_HTTP_PORT: "9000", RECRAFT_HTTP_AUTH_TOKEN: "secret" };
+    expect(parseCliOptions([], env)).toMatchObject({ transport: "http", port: 9000, authToken: "secret" });
+    expect(parseCliOptions(["--port", "9100"], env).port).toBe(9100);
+  });
+
+  it("should reject unknown transports and invalid ports", () => {
+    expect(() => parseCliOptions(["--transport", "sse"], {})).toThrow('Unknown transport "sse"');
+    expect(() => parseCliOptions(["--port", "nope"], {})).toThrow("Invalid port");
+  });
+
+  it("should reject unknown flags", () => {
+    expect(() => parseCliOptions(["--verbose"], {})).toThrow();
+  });
+});
@@ -0,0 +1,59 @@
+import { parseArgs } from "node:util";
+
+export type TransportMode = "stdio" | "http";
+
+export interface CliOptions {
+  transport: TransportMode;
+  host: string;
+  port: number;
+  authToken?: string;
+  allowedHosts?: string[];
+  allowedOrigins?: string[];
+  sessionIdleTimeoutMs?: number;
+}
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 3000;
+
+const parseList = (value?: string): string[] | undefined => {
+  const items = value?.split(",").map((s) => s.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+};
+
+/**
+ * Resolve transport settings from command-line flags, falling back to env
+ * vars. The HTTP auth token is only read from the environment so it never
+ * shows up in process listings.
+ */
+export const parseCliOptions = (args: string[], env: NodeJS.ProcessEnv = {}): CliOptions => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      transport: { type: "string" },
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+    strict: true,
+  });
+
+  const transport = (values.transport ?? env.RECRAFT_TRANSPORT ?? "stdio").toLowerCase();
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unknown transport "${transport}". Use "stdio" or "http".`);
+  }
+
+  const portValue = values.port ?? env.RECRAFT_HTTP_PORT;
+  const port = portValue !== undefined ? parseInt(portValue, 10) : DEFAULT_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${portValue}".`);
+  }
+
+  return {
+    transport,
+    host: values.host ?? env.RECRAFT_HTTP_HOST ?? DEFAULT_HOST,
+    port,
+    authToken: env.RECRAFT_HTTP_AUTH_TOKEN || undefined,
+    allowedHosts: parseList(env.RECRAFT_HTTP_ALLOWED_HOSTS),
+    allowedOrigins: parseList(env.RECRAFT_HTTP_ALLOWED_ORIGINS),
+    sessionIdleTimeoutMs: env.RECRAFT_HTTP_SESSION_TIMEOUT ? parseInt(env.RECRAFT_HTTP_SESSION_TIMEOUT, 10) * 1000 : undefined,
+  };
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import type { IncomingMessage } from "node:http";
+import type { InitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ClientPool, sessionApiToken } from "./client-pool.js";
+import { RecraftClient } from "./recraft-client.js";
+
+const request = (headers: Record<string, string> = {}): IncomingMessage => ({ headers }) as unknown as IncomingMessage;
+
+const initialize = (meta?: Record<string, unknown>): InitializeRequest => ({
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test", version: "0.0.0" },
+    ...(meta ? { _meta: meta } : {}),
+  },
+});
+
+describe("sessionApiToken", () => {
+  it("should read the token from the header", () => {
+    expect(sessionApiToken(request({ "x-recraft-api-token": " tok-1 " }), initialize())).toBe("tok-1");
+  });
+
+  it("should fall back to initialize _meta", () => {
+    expect(sessionApiToken(request(), initialize({ "recraft/apiToken": "tok-2" }))).toBe("tok-2");
+  });
+
+  it("should prefer the header over _meta", () => {
+    expect(
+      sessionApiToken(request({ "x-recraft-api-token": "header" }), initialize({ "recraft/apiToken": "meta" })),
+    ).toBe("header");
+  });
+
+  it("should return undefined when no token is supplied", () => {
+    expect(sessionApiToken(request(), initialize())).toBeUndefined();
+    expect(sessionApiToken(request(), initialize({ "recraft/apiToken": 42 }))).toBeUndefined();
+  });
+});
+
+describe("ClientPool", () => {
+  const create = (token: string) => new RecraftClient(token, "https://api.test.com/v1", 0, { maxRetries: 0 });
+
+  it("should reuse the client for the same token", () => {
+    const pool = new ClientPool(create);
+    expect(pool.get("a")).toBe(pool.get("a"));
+    expect(pool.size).toBe(1);
+  });
+
+  it("should isolate image registries between tokens", () => {
+    const pool = new ClientPool(create);
+    pool.get("a").images.record("generate_image", [{ image_id: "img-a", url: "https://img.test/a.png" }]);
+
+    expect(pool.get("a").images.get("img-a")).toBeDefined();
+    expect(pool.get("b").images.get("img-a")).toBeUndefined();
+  });
+
+  it("should evict the least recently used client when full", () => {
+    const pool = new ClientPool(create, 2);
+    const a = pool.get("a");
+    pool.get("b");
+    pool.get("a");
+    pool.get("c");
+
+    expect(pool.size).toBe(2);
+    expect(pool.get("a")).toBe(a);
+    expect(pool.size).toBe(2);
+  });
+});
@@ -0,0 +1,61 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { InitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { RecraftClient } from "./recraft-client.js";
+
+export const API_TOKEN_HEADER = "x-recraft-api-token";
+export const API_TOKEN_META_KEY = "recraft/apiToken";
+
+const DEFAULT_MAX_CLIENTS = 100;
+
+/**
+ * Find the Recraft API token a session supplied, either as the
+ * `X-Recraft-Api-Token` header or as `_meta["recraft/apiToken"]` on the
+ * initialize request.
+ */
+export const sessionApiToken = (req: IncomingMessage, initialize?: InitializeRequest): string | undefined => {
+  const header = req.headers[API_TOKEN_HEADER];
+  const fromHeader = (Array.isArray(header) ? header[0] : header)?.trim();
+  if (fromHeader) return fromHeader;
+
+  const fromMeta = initialize?.params._meta?.[API_TOKEN_META_KEY];
+  return typeof fromMeta === "string" && fromMeta.trim() ? fromMeta.trim() : undefined;
+};
+
+/**
+ * One RecraftClient per API token, so each tenant gets its own cache, image
+ * registry and credit budget. Least recently used clients are dropped once
+ * the pool is full.
+ */
+export class ClientPool {
+  private readonly clients = new Map<string, RecraftClient>();
+
+  constructor(
+    private readonly createClient: (apiToken: string) => RecraftClient,
+    private readonly maxClients = DEFAULT_MAX_CLIENTS,
+  ) {}
+
+  get(apiToken: string): RecraftClient {
+    // Key by digest so raw tokens are not kept around as map keys
+    const key = createHash("sha256").update(apiToken).digest("hex");
+
+    let client = this.clients.get(key);
+    if (client) {
+      this.clients.delete(key);
+    } else {
+      client = this.createClient(apiToken);
+    }
+    this.clients.set(key, client);
+
+    while (this.clients.size > this.maxClients) {
+      const oldest = this.clients.keys().next().value as string;
+      this.clients.delete(oldest);
+    }
+
+    return client;
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+}
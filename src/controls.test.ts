@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { buildControls, isHexColor, parseHexColor } from "./controls.js";
+
+describe("parseHexColor", () => {
+  it("should parse six-digit hex with or without #", () => {
+    expect(parseHexColor("#1A73E8")).toEqual([26, 115, 232]);
+    expect(parseHexColor("ff0000")).toEqual([255, 0, 0]);
+  });
+
+  it("should expand three-digit hex", () => {
+    expect(parseHexColor("#0f8")).toEqual([0, 255, 136]);
+  });
+
+  it("should reject anything else", () => {
+    expect(isHexColor("#12345")).toBe(false);
+    expect(isHexColor("blue")).toBe(false);
+    expect(() => parseHexColor("blue")).toThrow("Invalid hex color: blue");
+  });
+});
+
+describe("buildControls", () => {
+  it("should return undefined when nothing is set", () => {
+    expect(buildControls({})).toBeUndefined();
+    expect(buildControls({ colors: [] })).toBeUndefined();
+  });
+
+  it("should convert colors in every accepted form", () => {
+    expect(buildControls({
+      colors: ["#ffffff", [10, 20, 30], { color: "#000", weight: 0.25 }, { color: [1, 2, 3] }],
+      background_color: "#00ff00",
+    })).toEqual({
+      colors: [
+        { rgb: [255, 255, 255] },
+        { rgb: [10, 20, 30] },
+        { rgb: [0, 0, 0], weight: 0.25 },
+        { rgb: [1, 2, 3] },
+      ],
+      background_color: { rgb: [0, 255, 0] },
+    });
+  });
+
+  it("should keep artistic_level and no_text", () => {
+    expect(buildControls({ artistic_level: 0, no_text: false })).toEqual({ artistic_level: 0, no_text: false });
+  });
+});
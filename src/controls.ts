@@ -0,0 +1,52 @@
+import type { Controls, RgbColor } from "./types.js";
+
+/** A color as "#RRGGBB"/"#RGB" hex or an [r, g, b] triple. */
+export type ColorInput = string | RgbColor;
+
+export interface WeightedColorInput {
+  color: ColorInput;
+  weight?: number;
+}
+
+export interface ControlsInput {
+  artistic_level?: number;
+  no_text?: boolean;
+  colors?: Array<ColorInput | WeightedColorInput>;
+  background_color?: ColorInput;
+}
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isHexColor = (value: string): boolean => HEX_COLOR.test(value.trim());
+
+export const parseHexColor = (value: string): RgbColor => {
+  const match = HEX_COLOR.exec(value.trim());
+  if (!match) throw new Error(`Invalid hex color: ${value}. Use #RRGGBB or #RGB.`);
+
+  const hex = match[1].length === 3 ? [...match[1]].map((c) => c + c).join("") : match[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as RgbColor;
+};
+
+export const toRgb = (color: ColorInput): RgbColor =>
+  typeof color === "string" ? parseHexColor(color) : color;
+
+/**
+ * Build the API `controls` object from tool parameters, converting hex colors
+ * to RGB. Returns undefined when no control is set.
+ */
+export const buildControls = (input: ControlsInput): Controls | undefined => {
+  const controls: Controls = {};
+
+  if (input.artistic_level !== undefined) controls.artistic_level = input.artistic_level;
+  if (input.no_text !== undefined) controls.no_text = input.no_text;
+  if (input.colors !== undefined && input.colors.length > 0) {
+    controls.colors = input.colors.map((entry) =>
+      typeof entry === "object" && !Array.isArray(entry)
+        ? { rgb: toRgb(entry.color), ...(entry.weight !== undefined ? { weight: entry.weight } : {}) }
+        : { rgb: toRgb(entry) },
+    );
+  }
+  if (input.background_color !== undefined) controls.background_color = { rgb: toRgb(input.background_color) };
+
+  return Object.keys(controls).length > 0 ? controls : undefined;
+};
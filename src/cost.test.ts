@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { estimateCost, formatEstimate, isCostedTool } from "./cost.js";
+
+describe("estimateCost", () => {
+  it("should default to a single recraftv3 raster image", () => {
+    expect(estimateCost("generate_image")).toEqual({
+      tool: "generate_image",
+      model: "recraftv3",
+      output: "raster",
+      n: 1,
+      per_image: 40,
+      credits: 40,
+    });
+  });
+
+  it("should multiply by n", () => {
+    expect(estimateCost("generate_image", { n: 6 }).credits).toBe(240);
+  });
+
+  it("should price vector styles and vector models higher", () => {
+    expect(estimateCost("generate_image", { style: "vector_illustration" }).credits).toBe(80);
+    expect(estimateCost("generate_image", { model: "recraftv4_vector" }).output).toBe("vector");
+    expect(estimateCost("image_to_image", { model: "recraftv2", style: "icon", n: 2 }).credits).toBe(88);
+  });
+
+  it("should use flat prices for processing tools", () => {
+    expect(estimateCost("creative_upscale").credits).toBe(250);
+    expect(estimateCost("vectorize_image")).toMatchObject({ output: "vector", credits: 10 });
+  });
+});
+
+describe("formatEstimate", () => {
+  it("should show the per-image breakdown for multiple images", () => {
+    expect(formatEstimate(estimateCost("generate_image", { n: 3 }))).toBe("120 credits (3 × 40, raster)");
+    expect(formatEstimate(estimateCost("crisp_upscale"))).toBe("4 credits (raster)");
+  });
+});
+
+describe("isCostedTool", () => {
+  it("should only accept tools with a cost model", () => {
+    expect(isCostedTool("inpaint_image")).toBe(true);
+    expect(isCostedTool("list_styles")).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { DEFAULT_MODEL, isVectorOutput } from "./models.js";
+import type { ImageStyle, RecraftModel } from "./types.js";
+
+export const GENERATION_TOOLS = [
+  "generate_image",
+  "image_to_image",
+  "inpaint_image",
+  "replace_background",
+  "generate_background",
+] as const;
+
+export const PROCESSING_TOOLS = [
+  "remove_background",
+  "erase_region",
+  "vectorize_image",
+  "crisp_upscale",
+  "creative_upscale",
+] as const;
+
+export const COSTED_TOOLS = [...GENERATION_TOOLS, ...PROCESSING_TOOLS] as const;
+
+export type GenerationTool = (typeof GENERATION_TOOLS)[number];
+export type ProcessingTool = (typeof PROCESSING_TOOLS)[number];
+export type CostedTool = (typeof COSTED_TOOLS)[number];
+
+// Credits per output image, from Recraft's published API pricing. The credits
+// Recraft reports on each response remain authoritative.
+const GENERATION_COSTS: Record<RecraftModel, { raster: number; vector: number }> = {
+  recraftv4: { raster: 40, vector: 80 },
+  recraftv4_vector: { raster: 80, vector: 80 },
+  recraftv3: { raster: 40, vector: 80 },
+  recraftv2: { raster: 22, vector: 44 },
+  recraft20b: { raster: 22, vector: 44 },
+  refm1: { raster: 40, vector: 80 },
+};
+
+const PROCESSING_COSTS: Record<ProcessingTool, number> = {
+  remove_background: 10,
+  erase_region: 2,
+  vectorize_image: 10,
+  crisp_upscale: 4,
+  creative_upscale: 250,
+};
+
+export interface CostParams {
+  model?: RecraftModel;
+  style?: ImageStyle;
+  n?: number;
+}
+
+export interface CostEstimate {
+  tool: CostedTool;
+  model?: RecraftModel;
+  output: "raster" | "vector";
+  n: number;
+  per_image: number;
+  credits: number;
+}
+
+export const isGenerationTool = (tool: string): tool is GenerationTool =>
+  (GENERATION_TOOLS as readonly string[]).includes(tool);
+
+export const isCostedTool = (tool: string): tool is CostedTool =>
+  (COSTED_TOOLS as readonly string[]).includes(tool);
+
+export const estimateCost = (tool: CostedTool, params: CostParams = {}): CostEstimate => {
+  if (tool in PROCESSING_COSTS) {
+    const perImage = PROCESSING_COSTS[tool as ProcessingTool];
+    return {
+      tool,
+      output: tool === "vectorize_image" ? "vector" : "raster",
+      n: 1,
+      per_image: perImage,
+      credits: perImage,
+    };
+  }
+
+  const model = params.model ?? DEFAULT_MODEL;
+  const vector = isVectorOutput(model, params.style);
+  const perImage = GENERATION_COSTS[model][vector ? "vector" : "raster"];
+  const n = params.n ?? 1;
+
+  return {
+    tool,
+    model,
+    output: vector ? "vector" : "raster",
+    n,
+    per_image: perImage,
+    credits: perImage * n,
+  };
+};
+
+export const formatEstimate = (estimate: CostEstimate): string =>
+  estimate.n > 1
+    ? `${estimate.credits} credits (${estimate.n} × ${estimate.per_image}, ${estimate.output})`
+    : `${estimate.credits} credits (${estimate.output})`;
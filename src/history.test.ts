@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HistoryLedger } from "./history.js";
+
+describe("HistoryLedger", () => {
+  let dir: string;
+  let ledger: HistoryLedger;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "recraft-history-"));
+    ledger = new HistoryLedger(join(dir, "nested", "history.jsonl"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should append one JSON line per entry", async () => {
+    await ledger.append("generate_image", { prompt: "a cat", random_seed: 7 }, { credits: 40, data: [{ image_id: "a" }] });
+    await ledger.append("generate_image", { prompt: "a dog" }, { credits: 40, data: [{ image_id: "b" }] });
+
+    const lines = (await readFile(ledger.path, "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      tool: "generate_image",
+      params: { prompt: "a cat", random_seed: 7 },
+      credits: 40,
+      image_ids: ["a"],
+    });
+  });
+
+  it("should omit image data and undefined values from params", async () => {
+    const entry = await ledger.append(
+      "inpaint_image",
+      { image: "aGVsbG8=", mask: "aGVsbG8=", prompt: "a hat", model: undefined },
+      { credits: 40, data: [] },
+    );
+
+    expect(entry.params).toEqual({ prompt: "a hat" });
+  });
+
+  it("should list newest first with limit and tool filter", async () => {
+    await ledger.append("generate_image", { prompt: "1" }, { credits: 1, data: [] });
+    await ledger.append("image_to_image", { prompt: "2" }, { credits: 1, data: [] });
+    await ledger.append("generate_image", { prompt: "3" }, { credits: 1, data: [] });
+
+    expect((await ledger.list()).map((e) => e.params.prompt)).toEqual(["3", "2", "1"]);
+    expect((await ledger.list({ limit: 1 })).map((e) => e.params.prompt)).toEqual(["3"]);
+    expect((await ledger.list({ tool: "generate_image" })).map((e) => e.params.prompt)).toEqual(["3", "1"]);
+  });
+
+  it("should find entries by ID and skip malformed lines", async () => {
+    const entry = await ledger.append("generate_image", { prompt: "a cat" }, { credits: 1, data: [] });
+    await appendFile(ledger.path, "{not json\n");
+
+    expect(await ledger.get(entry.id)).toEqual(entry);
+    expect(await ledger.list()).toHaveLength(1);
+  });
+
+  it("should return nothing when the file does not exist yet", async () => {
+    expect(await ledger.list()).toEqual([]);
+    expect(await ledger.get("missing")).toBeUndefined();
+  });
+});
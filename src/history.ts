@@ -0,0 +1,85 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  /** Request parameters as sent to Recraft, without source image or mask data. */
+  params: Record<string, unknown>;
+  credits: number;
+  image_ids: string[];
+  /** ID of the entry this generation replayed, if any. */
+  replay_of?: string;
+}
+
+export interface HistoryQuery {
+  limit?: number;
+  tool?: string;
+}
+
+const OMITTED_PARAMS = new Set(["image", "mask"]);
+
+/**
+ * Append-only JSONL ledger of generation requests. Each line is one
+ * HistoryEntry; malformed lines are skipped when reading.
+ */
+export class HistoryLedger {
+  constructor(readonly path: string) {}
+
+  async append(
+    tool: string,
+    params: object,
+    response: { credits: number; data: Array<{ image_id: string }> },
+    replayOf?: string,
+  ): Promise<HistoryEntry> {
+    const entry: HistoryEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      tool,
+      params: Object.fromEntries(
+        Object.entries(params).filter(([key, value]) => value !== undefined && !OMITTED_PARAMS.has(key)),
+      ),
+      credits: response.credits,
+      image_ids: response.data.map((img) => img.image_id),
+      ...(replayOf ? { replay_of: replayOf } : {}),
+    };
+
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, `${JSON.stringify(entry)}\n`, "utf8");
+    return entry;
+  }
+
+  /** Entries newest first, optionally filtered by tool. */
+  async list(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+    const entries = (await this.readAll()).reverse();
+    const filtered = query.tool ? entries.filter((e) => e.tool === query.tool) : entries;
+    return query.limit !== undefined ? filtered.slice(0, query.limit) : filtered;
+  }
+
+  async get(id: string): Promise<HistoryEntry | undefined> {
+    return (await this.readAll()).find((e) => e.id === id);
+  }
+
+  private async readAll(): Promise<HistoryEntry[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const entries: HistoryEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as HistoryEntry);
+      } catch {
+        // Skip partial writes and hand-edited lines
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { IncomingMessage } from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import * as z from "zod/v4";
+import { findOriginIssue, HttpError, startHttpServer, type HttpMcpServer } from "./http.js";
+
+const createTestServer = (): McpServer => {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  server.registerTool("ping", { inputSchema: z.object({}) }, async () => ({
+    content: [{ type: "text" as const, text: "pong" }],
+  }));
+  return server;
+};
+
+describe("startHttpServer", () => {
+  let http: HttpMcpServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    http = await startHttpServer(createTestServer, { host: "127.0.0.1", port: 0, authToken: "secret" });
+    baseUrl = `http://127.0.0.1:${http.address.port}`;
+  });
+
+  afterEach(async () => {
+    await http.close();
+  });
+
+  const connect = async (token = "secret"): Promise<Client> => {
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    }));
+    return client;
+  };
+
+  it("should answer health checks without auth", async () => {
+    const response = await fetch(`${baseUrl}/healthz`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok", sessions: 0 });
+  });
+
+  it("should serve concurrent sessions", async () => {
+    const first = await connect();
+    const second = await connect();
+
+    const [a, b] = await Promise.all([
+      first.callTool({ name: "ping", arguments: {} }),
+      second.callTool({ name: "ping", arguments: {} }),
+    ]);
+
+    expect(a.content).toEqual([{ type: "text", text: "pong" }]);
+    expect(b.content).toEqual([{ type: "text", text: "pong" }]);
+    expect(http.sessionCount).toBe(2);
+
+    await first.close();
+    await second.close();
+  });
+
+  it("should reject requests without the bearer token", async () => {
+    await expect(connect("wrong")).rejects.toThrow();
+
+    const response = await fetch(`${baseUrl}/mcp`, { method: "POST", body: "{}" });
+    expect(response.status).toBe(401);
+  });
+
+  it("should reject non-initialize requests without a session", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { Authorization: "Bearer secret", "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("should return 404 for unknown sessions and paths", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "GET",
+      headers: { Authorization: "Bearer secret", "mcp-session-id": "missing" },
+    });
+    expect(response.status).toBe(404);
+    expect((await fetch(`${baseUrl}/other`)).status).toBe(404);
+  });
+});
+
+describe("startHttpServer session factory", () => {
+  it("should reject the session with the status of an HttpError", async () => {
+    const http = await startHttpServer(
+      (req) => {
+        if (!req.headers["x-recraft-api-token"]) throw new HttpError("Missing Recraft API token", 401);
+        return createTestServer();
+      },
+      { host: "127.0.0.1", port: 0 },
+    );
+
+    try {
+      const url = new URL(`http://127.0.0.1:${http.address.port}/mcp`);
+      const rejected = new Client({ name: "test-client", version: "0.0.0" });
+      await expect(rejected.connect(new StreamableHTTPClientTransport(url))).rejects.toThrow();
+      expect(http.sessionCount).toBe(0);
+
+      const client = new Client({ name: "test-client", version: "0.0.0" });
+      await client.connect(new StreamableHTTPClientTransport(url, {
+        requestInit: { headers: { "X-Recraft-Api-Token": "tenant" } },
+      }));
+      expect(http.sessionCount).toBe(1);
+      await client.close();
+    } finally {
+      await http.close();
+    }
+  });
+});
+
+describe("startHttpServer refused initialize", () => {
+  it("should close the session server when the transport refuses the initialize request", async () => {
+    const servers: McpServer[] = [];
+    const http = await startHttpServer(() => {
+      const server = createTestServer();
+      vi.spyOn(server, "close");
+      servers.push(server);
+      return server;
+    }, { host: "127.0.0.1", port: 0 });
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${http.address.port}/mcp`, {
+        method: "POST",
+        // The streamable HTTP transport requires clients to accept both JSON and event streams
+        headers: { Accept: "application/json", "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "0.0.0" } },
+        }),
+      });
+
+      expect(response.status).toBe(406);
+      expect(servers).toHaveLength(1);
+      expect(servers[0].close).toHaveBeenCalled();
+      expect(http.sessionCount).toBe(0);
+    } finally {
+      await http.close();
+    }
+  });
+});
+
+describe("findOriginIssue", () => {
+  const request = (headers: Record<string, string>) => ({ headers }) as unknown as IncomingMessage;
+  const loopback = { host: "127.0.0.1", port: 3000 };
+
+  it("should only answer to loopback names when bound to loopback", () => {
+    expect(findOriginIssue(request({ host: "localhost:3000" }), loopback)).toBeUndefined();
+    expect(findOriginIssue(request({ host: "127.0.0.1:3000" }), loopback)).toBeUndefined();
+    expect(findOriginIssue(request({ host: "attacker.example:3000" }), loopback)).toContain("only answers to localhost");
+  });
+
+  it("should refuse cross-origin browser requests unless allowed", () => {
+    expect(findOriginIssue(request({ host: "localhost:3000", origin: "http://localhost:3000" }), loopback)).toBeUndefined();
+    expect(findOriginIssue(request({ host: "localhost:3000", origin: "http://localhost:8080" }), loopback))
+      .toBe("Origin http://localhost:8080 is not allowed");
+    expect(findOriginIssue(
+      request({ host: "localhost:3000", origin: "http://localhost:8080" }),
+      { ...loopback, allowedOrigins: ["http://localhost:8080"] },
+    )).toBeUndefined();
+  });
+
+  it("should check configured hosts on any interface", () => {
+    const options = { host: "0.0.0.0", port: 3000, allowedHosts: ["mcp.example.com"] };
+    expect(findOriginIssue(request({ host: "mcp.example.com:3000" }), options)).toBeUndefined();
+    expect(findOriginIssue(request({ host: "other.example.com" }), options)).toContain("not allowed");
+    expect(findOriginIssue(request({ host: "anything.example.com" }), { host: "0.0.0.0", port: 3000 })).toBeUndefined();
+  });
+});
+
+describe("startHttpServer idle sessions", () => {
+  it("should close sessions that stay idle past the timeout", async () => {
+    const http = await startHttpServer(createTestServer, { host: "127.0.0.1", port: 0, sessionIdleTimeoutMs: 50 });
+
+    try {
+      const client = new Client({ name: "test-client", version: "0.0.0" });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${http.address.port}/mcp`)));
+      await client.callTool({ name: "ping", arguments: {} });
+      expect(http.sessionCount).toBe(1);
+
+      // Closing the client drops its connections without sending DELETE, as a crashed client would
+      await client.close();
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(http.sessionCount).toBe(0);
+    } finally {
+      await http.close();
+    }
+  });
+});
@@ -0,0 +1,284 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest, type InitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Shared secret clients must send as `Authorization: Bearer <token>`. */
+  authToken?: string;
+  /** Largest accepted request body in bytes. */
+  maxBodyBytes?: number;
+  /**
+   * Host header values to accept, as a hostname or host:port. Default: the
+   * loopback names when listening on a loopback address, otherwise any host.
+   */
+  allowedHosts?: string[];
+  /**
+   * Origin header values to accept besides the server's own origin. Requests
+   * without an Origin header (non-browser clients) are always accepted.
+   */
+  allowedOrigins?: string[];
+  /** Close sessions that have had no open request for this many ms; 0 disables. */
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface HttpMcpServer {
+  readonly address: AddressInfo;
+  readonly sessionCount: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Create the McpServer for a new session. Throw an HttpError to reject the
+ * session with that status.
+ */
+export type SessionServerFactory = (
+  req: IncomingMessage,
+  initialize: InitializeRequest,
+) => McpServer | Promise<McpServer>;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Requests still open, including GET event streams. */
+  active: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const MCP_PATH = "/mcp";
+const DEFAULT_MAX_BODY_BYTES = 20 * 1024 * 1024;
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendRpcError = (res: ServerResponse, status: number, message: string, headers?: Record<string, string>): void =>
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null }, headers);
+
+const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) throw new HttpError(`Request body exceeds ${maxBytes} bytes`, 413);
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError("Request body is not valid JSON", 400);
+  }
+};
+
+export const isAuthorized = (req: IncomingMessage, authToken?: string): boolean => {
+  if (!authToken) return true;
+
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+const headerValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+export const isLoopback = (host: string): boolean =>
+  host === "localhost" || host === "::1" || host === "[::1]" || host.startsWith("127.");
+
+const parseHost = (value: string): { host: string; hostname: string } | undefined => {
+  try {
+    const { host, hostname } = new URL(`http://${value}`);
+    return { host, hostname };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Why a request's Host or Origin header is refused, or undefined if both are
+ * acceptable. A page on another site that rebinds its DNS name to this
+ * server still sends its own name as Host, and browsers always send Origin
+ * on cross-origin POSTs.
+ */
+export const findOriginIssue = (req: IncomingMessage, options: HttpServerOptions): string | undefined => {
+  const hostHeader = headerValue(req.headers.host) ?? "";
+  const host = parseHost(hostHeader);
+
+  if (options.allowedHosts?.length) {
+    const allowed = options.allowedHosts.some((entry) => entry === host?.host || entry === host?.hostname);
+    if (!allowed) return `Host ${hostHeader || "(none)"} is not allowed`;
+  } else if (isLoopback(options.host) && !(host && isLoopback(host.hostname))) {
+    return `Host ${hostHeader || "(none)"} is not allowed; this server only answers to localhost`;
+  }
+
+  const origin = headerValue(req.headers.origin);
+  if (origin === undefined || options.allowedOrigins?.includes(origin)) return undefined;
+  const originHost = URL.canParse(origin) ? new URL(origin).host : undefined;
+  return originHost !== undefined && originHost === host?.host ? undefined : `Origin ${origin} is not allowed`;
+};
+
+const closeServer = (server: Server): Promise<void> =>
+  new Promise((resolve, reject) => {
+    server.close((error) => (error ? reject(error) : resolve()));
+    server.closeAllConnections();
+  });
+
+/**
+ * Serve MCP over the streamable HTTP transport. Every client session gets
+ * its own McpServer from `createSessionServer`; sessions are tracked by the
+ * `mcp-session-id` header until the client deletes them, they sit idle for
+ * `sessionIdleTimeoutMs`, or the server stops.
+ */
+export const startHttpServer = async (
+  createSessionServer: SessionServerFactory,
+  options: HttpServerOptions,
+): Promise<HttpMcpServer> => {
+  const sessions = new Map<string, Session>();
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  // Clients that disconnect without DELETE would otherwise keep their session forever
+  const track = (session: Session, res: ServerResponse): void => {
+    clearTimeout(session.idleTimer);
+    session.active++;
+    res.once("close", () => {
+      session.active--;
+      // A session the transport never initialized was already closed
+      if (session.active > 0 || idleTimeoutMs <= 0 || !session.transport.sessionId) return;
+      session.idleTimer = setTimeout(() => void session.server.close(), idleTimeoutMs);
+      session.idleTimer.unref();
+    });
+  };
+
+  const handleMcp = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const originIssue = findOriginIssue(req, options);
+    if (originIssue) {
+      sendRpcError(res, 403, originIssue);
+      return;
+    }
+    if (!isAuthorized(req, options.authToken)) {
+      sendRpcError(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    const sessionId = headerValue(req.headers["mcp-session-id"]);
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req, maxBodyBytes);
+
+      if (session) {
+        track(session, res);
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId) {
+        sendRpcError(res, 404, "Session not found");
+        return;
+      }
+      if (!isInitializeRequest(body)) {
+        sendRpcError(res, 400, "No session ID provided and request is not an initialize request");
+        return;
+      }
+
+      const server = await createSessionServer(req, body);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, created);
+        },
+      });
+      const created: Session = { transport, server, active: 0 };
+      transport.onclose = () => {
+        clearTimeout(created.idleTimer);
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+
+      await server.connect(transport);
+      track(created, res);
+      await transport.handleRequest(req, res, body);
+      // The transport refused the initialize request (e.g. a bad Accept header), so no session was stored
+      if (!transport.sessionId) await server.close();
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!session) {
+        sendRpcError(res, sessionId ? 404 : 400, sessionId ? "Session not found" : "Missing mcp-session-id header");
+        return;
+      }
+      track(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    sendRpcError(res, 405, "Method not allowed", { Allow: "GET, POST, DELETE" });
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === "/healthz" && req.method === "GET") {
+      sendJson(res, 200, { status: "ok", sessions: sessions.size });
+      return;
+    }
+
+    if (path !== MCP_PATH) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    handleMcp(req, res).catch((error: unknown) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendRpcError(res, error.status, error.message);
+        return;
+      }
+      console.error("MCP HTTP request failed:", error);
+      sendRpcError(res, 500, "Internal server error");
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    address: httpServer.address() as AddressInfo,
+    get sessionCount() {
+      return sessions.size;
+    },
+    close: async () => {
+      await Promise.all([...sessions.values()].map(({ server }) => server.close()));
+      sessions.clear();
+      await closeServer(httpServer);
+    },
+  };
+};
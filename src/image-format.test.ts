@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { detectImageType, identifyUpload, readImageDimensions } from "./image-format.js";
+
+describe("detectImageType", () => {
+  it("should detect PNG", () => {
+    expect(detectImageType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a])))
+      .toEqual({ mimeType: "image/png", extension: "png" });
+  });
+
+  it("should detect JPEG", () => {
+    expect(detectImageType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0])))
+      .toEqual({ mimeType: "image/jpeg", extension: "jpg" });
+  });
+
+  it("should detect WEBP", () => {
+    const bytes = new TextEncoder().encode("RIFF\0\0\0\0WEBPVP8 ");
+    expect(detectImageType(bytes)).toEqual({ mimeType: "image/webp", extension: "webp" });
+  });
+
+  it("should detect SVG", () => {
+    expect(detectImageType(new TextEncoder().encode("  <svg></svg>"))?.mimeType).toBe("image/svg+xml");
+  });
+
+  it("should return undefined for unknown data", () => {
+    expect(detectImageType(new TextEncoder().encode("<html></html>"))).toBeUndefined();
+  });
+});
+
+describe("readImageDimensions", () => {
+  const bytes = (...parts: Array<string | number[]>): Uint8Array =>
+    new Uint8Array(parts.flatMap((part) => (typeof part === "string" ? [...Buffer.from(part, "latin1")] : part)));
+
+  it("should read PNG dimensions from IHDR", () => {
+    const png = bytes([0x89], "PNG\r\n\x1a\n", [0, 0, 0, 13], "IHDR", [0, 0, 0x0b, 0xb8, 0, 0, 0x07, 0xd0]);
+    expect(readImageDimensions(png)).toEqual({ width: 3000, height: 2000 });
+  });
+
+  it("should read JPEG dimensions from the frame header after other segments", () => {
+    const jpeg = bytes([0xff, 0xd8], [0xff, 0xe0, 0, 4, 0, 0], [0xff, 0xc2, 0, 11, 8, 0x02, 0x58, 0x03, 0x20, 3, 0, 0]);
+    expect(readImageDimensions(jpeg)).toEqual({ width: 800, height: 600 });
+  });
+
+  it("should read lossy, lossless and extended WEBP dimensions", () => {
+    const lossy = bytes("RIFF", [0, 0, 0, 0], "WEBPVP8 ", [0, 0, 0, 0], [0, 0, 0], [0x9d, 0x01, 0x2a], [0x00, 0x04, 0x00, 0x03]);
+    expect(readImageDimensions(lossy)).toEqual({ width: 1024, height: 768 });
+
+    // 14-bit width-1 and height-1 packed little-endian after the 0x2f signature
+    const bits = (640 - 1) | ((480 - 1) << 14);
+    const lossless = bytes("RIFF", [0, 0, 0, 0], "WEBPVP8L", [0, 0, 0, 0], [0x2f, bits & 0xff, (bits >> 8) & 0xff, (bits >> 16) & 0xff, bits >>> 24]);
+    expect(readImageDimensions(lossless)).toEqual({ width: 640, height: 480 });
+
+    const extended = bytes("RIFF", [0, 0, 0, 0], "WEBPVP8X", [10, 0, 0, 0], [0, 0, 0, 0], [0xff, 0x0f, 0], [0xff, 0x07, 0]);
+    expect(readImageDimensions(extended)).toEqual({ width: 4096, height: 2048 });
+  });
+
+  it("should return undefined for SVG and truncated headers", () => {
+    expect(readImageDimensions(new TextEncoder().encode("<svg></svg>"))).toBeUndefined();
+    expect(readImageDimensions(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeUndefined();
+  });
+});
+
+describe("identifyUpload", () => {
+  it("should trust magic bytes over the declared type", () => {
+    expect(identifyUpload("image", new Uint8Array([0xff, 0xd8, 0xff, 0xe0]), "image/png")).toEqual({
+      mimeType: "image/jpeg",
+      extension: "jpg",
+    });
+  });
+
+  it("should fall back to a declared image content type", () => {
+    expect(identifyUpload("image", new Uint8Array([1, 2, 3]), "image/avif; charset=binary")).toEqual({
+      mimeType: "image/avif",
+      extension: "avif",
+    });
+  });
+
+  it("should reject payloads that are not images", () => {
+    const html = new TextEncoder().encode("<!doctype html><html>Not found</html>");
+    expect(() => identifyUpload("mask", html, "text/html; charset=utf-8")).toThrow(
+      "The mask is not a PNG, JPEG, WEBP or SVG image (received text/html).",
+    );
+    expect(() => identifyUpload("image", new Uint8Array([1, 2, 3]))).toThrow("The image is not a PNG, JPEG, WEBP or SVG image.");
+  });
+});
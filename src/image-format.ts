@@ -0,0 +1,107 @@
+export interface DetectedImageType {
+  mimeType: string;
+  extension: string;
+}
+
+const startsWith = (bytes: Uint8Array, magic: number[], offset = 0): boolean =>
+  magic.every((byte, i) => bytes[offset + i] === byte);
+
+const isSvg = (bytes: Uint8Array): boolean => {
+  const head = new TextDecoder().decode(bytes.subarray(0, 256)).trimStart().toLowerCase();
+  return head.startsWith("<svg") || (head.startsWith("<?xml") && head.includes("<svg"));
+};
+
+export const detectImageType = (bytes: Uint8Array): DetectedImageType | undefined => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return { mimeType: "image/png", extension: "png" };
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return { mimeType: "image/jpeg", extension: "jpg" };
+  // RIFF....WEBP
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return { mimeType: "image/webp", extension: "webp" };
+  }
+  if (isSvg(bytes)) return { mimeType: "image/svg+xml", extension: "svg" };
+  return undefined;
+};
+
+const SUPPORTED_TYPES = "PNG, JPEG, WEBP or SVG";
+
+/**
+ * The type of an image about to be uploaded, from its magic bytes or, failing
+ * that, an `image/*` content type the source declared (such as a URL's
+ * Content-Type header). Throws for anything else, such as an HTML error page.
+ */
+export const identifyUpload = (field: string, bytes: Uint8Array, declaredType = ""): DetectedImageType => {
+  const detected = detectImageType(bytes);
+  if (detected) return detected;
+
+  const mimeType = declaredType.split(";")[0].trim().toLowerCase();
+  if (mimeType.startsWith("image/")) {
+    return { mimeType, extension: mimeType.slice("image/".length).split("+")[0] };
+  }
+
+  throw new Error(
+    `The ${field} is not a ${SUPPORTED_TYPES} image${mimeType ? ` (received ${mimeType})` : ""}. Check that it points to the image itself.`,
+  );
+};
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+const readUint16BE = (bytes: Uint8Array, offset: number): number => (bytes[offset] << 8) | bytes[offset + 1];
+
+const readUint24LE = (bytes: Uint8Array, offset: number): number =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+// Start-of-frame markers carry the dimensions; C4, C8 and CC share the range but are not frames
+const isJpegFrame = (marker: number): boolean =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+const readJpegDimensions = (bytes: Uint8Array): ImageDimensions | undefined => {
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+    } else if (isJpegFrame(marker)) {
+      return { width: readUint16BE(bytes, offset + 7), height: readUint16BE(bytes, offset + 5) };
+    } else if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+    } else {
+      offset += 2 + readUint16BE(bytes, offset + 2);
+    }
+  }
+  return undefined;
+};
+
+const readWebpDimensions = (bytes: Uint8Array): ImageDimensions | undefined => {
+  const chunk = new TextDecoder().decode(bytes.subarray(12, 16));
+  if (chunk === "VP8X" && bytes.length >= 30) {
+    return { width: readUint24LE(bytes, 24) + 1, height: readUint24LE(bytes, 27) + 1 };
+  }
+  if (chunk === "VP8L" && bytes.length >= 25 && bytes[20] === 0x2f) {
+    const bits = (bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24)) >>> 0;
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+  }
+  // Lossy frames start with the 9d 01 2a sync code after a 3-byte frame tag
+  if (chunk === "VP8 " && bytes.length >= 30 && startsWith(bytes, [0x9d, 0x01, 0x2a], 23)) {
+    return { width: (bytes[26] | (bytes[27] << 8)) & 0x3fff, height: (bytes[28] | (bytes[29] << 8)) & 0x3fff };
+  }
+  return undefined;
+};
+
+/**
+ * Pixel dimensions from a PNG, JPEG or WEBP header, or undefined when the
+ * format is not one of those or the header is incomplete.
+ */
+export const readImageDimensions = (bytes: Uint8Array): ImageDimensions | undefined => {
+  const type = detectImageType(bytes);
+  if (type?.extension === "png" && bytes.length >= 24) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (type?.extension === "jpg") return readJpegDimensions(bytes);
+  if (type?.extension === "webp") return readWebpDimensions(bytes);
+  return undefined;
+};
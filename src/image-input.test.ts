@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, realpath, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { describeImageInput, fetchImageBlob, isLocalPath, resolveLocalPath } from "./image-input.js";
+import { ImageRegistry } from "./image-registry.js";
+
+describe("isLocalPath", () => {
+  it("should detect absolute paths and file URIs", () => {
+    expect(isLocalPath("/tmp/cat.png")).toBe(true);
+    expect(isLocalPath("file:///tmp/cat.png")).toBe(true);
+  });
+
+  it("should not treat URLs or base64 as paths", () => {
+    expect(isLocalPath("https://img.test/cat.png")).toBe(false);
+    expect(isLocalPath("iVBORw0KGgo=")).toBe(false);
+    // Base64-encoded JPEG data starts with a slash
+    expect(isLocalPath("/9j/4AAQSkZJRg==")).toBe(false);
+  });
+
+  it("should treat extensionless paths as paths even though they are valid base64", () => {
+    for (const path of ["/tmp/image", "/home/user/photos/cat_1", "/srv/uploads/2024/logo"]) {
+      expect(isLocalPath(path), path).toBe(true);
+    }
+  });
+});
+
+describe("local image inputs", () => {
+  let root: string;
+  let outside: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "recraft-allowed-"));
+    outside = await mkdtemp(join(tmpdir(), "recraft-outside-"));
+    await mkdir(join(root, "nested"));
+    await writeFile(join(root, "nested", "cat.png"), Buffer.from([1, 2, 3]));
+    await writeFile(join(outside, "secret.png"), Buffer.from([9]));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+    await rm(outside, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should read absolute paths inside an allowed root", async () => {
+    const blob = await fetchImageBlob(join(root, "nested", "cat.png"), { allowedRoots: [root] });
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it("should read extensionless files inside an allowed root", async () => {
+    const path = join(root, "nested", "image");
+    await writeFile(path, Buffer.from([1, 2, 3, 4]));
+
+    expect(await describeImageInput(path, { allowedRoots: [root] })).toEqual({ source: "file", path: await realpath(path), bytes: 4 });
+  });
+
+  it("should read file:// URIs inside an allowed root", async () => {
+    const uri = pathToFileURL(join(root, "nested", "cat.png")).href;
+    const blob = await fetchImageBlob(uri, { allowedRoots: [root] });
+    expect(blob.size).toBe(3);
+  });
+
+  it("should reject paths when no roots are configured", async () => {
+    await expect(fetchImageBlob(join(root, "nested", "cat.png")))
+      .rejects.toThrow("RECRAFT_ALLOWED_DIRS");
+  });
+
+  it("should reject paths outside the allowed roots", async () => {
+    await expect(resolveLocalPath(join(outside, "secret.png"), [root]))
+      .rejects.toThrow("outside the allowed directories");
+  });
+
+  it("should reject traversal out of an allowed root", async () => {
+    const traversal = join(root, "..", outside.split("/").pop()!, "secret.png");
+    await expect(resolveLocalPath(traversal, [root]))
+      .rejects.toThrow("outside the allowed directories");
+  });
+
+  it("should reject symlinks pointing outside the allowed roots", async () => {
+    await symlink(join(outside, "secret.png"), join(root, "link.png"));
+    await expect(resolveLocalPath(join(root, "link.png"), [root]))
+      .rejects.toThrow("outside the allowed directories");
+  });
+
+  it("should report missing files", async () => {
+    await expect(resolveLocalPath(join(root, "missing.png"), [root]))
+      .rejects.toThrow("Image file not found");
+  });
+
+  it("should not touch the filesystem for base64 input", async () => {
+    const blob = await fetchImageBlob(btoa("abc"));
+    expect(await blob.text()).toBe("abc");
+  });
+});
+
+describe("image_id references", () => {
+  let images: ImageRegistry;
+
+  beforeEach(() => {
+    images = new ImageRegistry();
+    images.record("generate_image", [{ image_id: "gen", url: "https://img.test/gen.png" }]);
+    images.record("remove_background", [{ image_id: "inline", b64_json: Buffer.from([7, 8, 9]).toString("base64") }]);
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(new Uint8Array([4, 5, 6]))));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should fetch the recorded URL", async () => {
+    const blob = await fetchImageBlob("image_id:gen", { images });
+
+    expect(fetch).toHaveBeenCalledWith("https://img.test/gen.png", expect.anything());
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(new Uint8Array([4, 5, 6]));
+  });
+
+  it("should use recorded bytes without fetching", async () => {
+    const blob = await fetchImageBlob("recraft://images/inline", { images });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(new Uint8Array([7, 8, 9]));
+  });
+
+  it("should describe references without fetching", async () => {
+    expect(await describeImageInput("image_id:gen", { images })).toEqual({
+      source: "image_id",
+      image_id: "gen",
+      url: "https://img.test/gen.png",
+    });
+    expect(await describeImageInput("image_id:inline", { images })).toEqual({ source: "image_id", image_id: "inline", bytes: 3 });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown IDs", async () => {
+    await expect(fetchImageBlob("image_id:missing", { images })).rejects.toThrow("Unknown image_id: missing");
+    await expect(fetchImageBlob("image_id:gen")).rejects.toThrow("Unknown image_id: gen");
+  });
+});
+
+describe("inline image data", () => {
+  const bytesOf = async (blob: Blob): Promise<number[]> => [...new Uint8Array(await blob.arrayBuffer())];
+
+  it("should decode base64 data URIs and keep their MIME type", async () => {
+    const blob = await fetchImageBlob(`data:image/webp;base64,${Buffer.from([1, 2, 3]).toString("base64")}`);
+
+    expect(blob.type).toBe("image/webp");
+    expect(await bytesOf(blob)).toEqual([1, 2, 3]);
+    expect(await describeImageInput("data:image/webp;base64,AQID")).toEqual({ source: "data_uri", mime_type: "image/webp", bytes: 3 });
+  });
+
+  it("should decode percent-encoded data URIs", async () => {
+    const blob = await fetchImageBlob("data:image/svg+xml,%3Csvg%3E%3C%2Fsvg%3E");
+
+    expect(blob.type).toBe("image/svg+xml");
+    expect(await blob.text()).toBe("<svg></svg>");
+  });
+
+  it("should accept base64 with line breaks, URL-safe characters and missing padding", async () => {
+    const bytes = [0xfb, 0xff, 0xbf, 0x01, 0x02];
+    const urlSafe = Buffer.from(bytes).toString("base64url");
+
+    expect(urlSafe).toMatch(/[-_]/);
+    expect(await bytesOf(await fetchImageBlob(urlSafe))).toEqual(bytes);
+    expect(await bytesOf(await fetchImageBlob("+/+/\nAQI=\n"))).toEqual(bytes);
+  });
+
+  it("should treat wrapped base64 JPEG data as base64, not a path", () => {
+    expect(isLocalPath("/9j/4AAQ\nSkZJRg==")).toBe(false);
+  });
+
+  it("should treat unpadded base64 JPEG data as base64, not a path", async () => {
+    const unpadded = "/9j/4AAQSkZJRgABAQAAAQ";
+
+    expect(unpadded.length % 4).not.toBe(0);
+    expect(isLocalPath(unpadded)).toBe(false);
+    expect((await bytesOf(await fetchImageBlob(unpadded))).slice(0, 3)).toEqual([0xff, 0xd8, 0xff]);
+  });
+
+  it("should name the parameter when decoding fails", async () => {
+    await expect(fetchImageBlob("not an image!", {}, undefined, "mask")).rejects.toThrow("The mask is not valid base64.");
+    await expect(describeImageInput("data:image/png;base64,***")).rejects.toThrow("The image data URI is not valid base64.");
+    await expect(fetchImageBlob("QUJDR")).rejects.toThrow("The image is not valid base64.");
+  });
+});
+
+describe("URL inputs", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should apply the remote fetch policy", async () => {
+    vi.stubGlobal("fetch", vi.fn());
+
+    await expect(fetchImageBlob("http://127.0.0.1:9000/a.png")).rejects.toThrow("private or local address");
+    await expect(fetchImageBlob("https://evil.test/a.png", { remote: { allowedHosts: ["cdn.test"] } }))
+      .rejects.toThrow("not in RECRAFT_ALLOWED_HOSTS");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,185 @@
+import { readFile, realpath, stat } from "node:fs/promises";
+import { isAbsolute, relative, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import { detectImageType } from "./image-format.js";
+import { IMAGES_URI, parseImageReference, type ImageRecord, type ImageRegistry } from "./image-registry.js";
+import { fetchRemoteImage, type RemoteFetchPolicy } from "./remote-fetch.js";
+
+export interface ImageInputOptions {
+  allowedRoots?: string[];
+  /** Earlier results that `image_id:<id>` and `recraft://images/<id>` inputs resolve against. */
+  images?: ImageRegistry;
+  /** Host, size and time limits for URL inputs. */
+  remote?: RemoteFetchPolicy;
+}
+
+export interface ImageInputSummary {
+  source: "url" | "file" | "base64" | "data_uri" | "image_id";
+  url?: string;
+  path?: string;
+  image_id?: string;
+  /** MIME type declared by a data URI. */
+  mime_type?: string;
+  bytes?: number;
+}
+
+const isUrl = (value: string): boolean =>
+  value.startsWith("http://") || value.startsWith("https://");
+
+const isFileUri = (value: string): boolean => value.startsWith("file://");
+
+const isDataUri = (value: string): boolean => value.slice(0, 5).toLowerCase() === "data:";
+
+const DATA_URI = /^data:([^,]*?),(.*)$/is;
+
+// Line breaks and URL-safe characters are common in base64 pasted by agents
+const normalizeBase64 = (value: string): string => {
+  const unpadded = value.replace(/\s+/g, "").replace(/-/g, "+").replace(/_/g, "/").replace(/=+$/, "");
+  return unpadded.padEnd(Math.ceil(unpadded.length / 4) * 4, "=");
+};
+
+const isBase64 = (value: string): boolean => {
+  const normalized = normalizeBase64(value);
+  // A single character left over after full 4-character groups cannot encode a byte
+  return /^[A-Za-z0-9+/]+={0,2}$/.test(normalized) && !normalized.endsWith("===");
+};
+
+// Base64 JPEG data starts with "/9j/", which is also a valid absolute POSIX path.
+// Extensionless paths are base64 characters too, so only image data counts as base64.
+const isBase64Image = (value: string): boolean =>
+  isBase64(value) && detectImageType(Buffer.from(normalizeBase64(value).slice(0, 24), "base64")) !== undefined;
+
+export const isLocalPath = (value: string): boolean =>
+  isFileUri(value) || (isAbsolute(value) && !isBase64Image(value));
+
+export const isWithin = (root: string, target: string): boolean => {
+  const rel = relative(root, target);
+  return rel === "" || (!rel.startsWith(`..${sep}`) && rel !== ".." && !isAbsolute(rel));
+};
+
+export const resolveLocalPath = async (
+  imageInput: string,
+  allowedRoots: string[] = [],
+): Promise<string> => {
+  if (allowedRoots.length === 0) {
+    throw new Error(
+      "Local file inputs are disabled. Set RECRAFT_ALLOWED_DIRS to a comma-separated list of directories to allow reading images from disk.",
+    );
+  }
+
+  const requested = isFileUri(imageInput) ? fileURLToPath(imageInput) : resolve(imageInput);
+
+  // Resolve symlinks on both sides so a link inside an allowed root cannot escape it
+  let target: string;
+  try {
+    target = await realpath(requested);
+  } catch {
+    throw new Error(`Image file not found: ${requested}`);
+  }
+
+  for (const root of allowedRoots) {
+    const realRoot = await realpath(resolve(root)).catch(() => null);
+    if (realRoot && isWithin(realRoot, target)) return target;
+  }
+
+  throw new Error(
+    `Image file ${requested} is outside the allowed directories: ${allowedRoots.join(", ")}`,
+  );
+};
+
+const resolveReference = (imageId: string, options: ImageInputOptions): ImageRecord => {
+  const record = options.images?.get(imageId);
+  if (!record) {
+    throw new Error(`Unknown image_id: ${imageId}. Read ${IMAGES_URI} for the images available in this session.`);
+  }
+  return record;
+};
+
+const INPUT_FORMS = "a URL, local file path, image_id:<id> reference, data: URI, or base64-encoded image data";
+
+const decodeBase64 = (value: string, field: string): Uint8Array<ArrayBuffer> => {
+  if (!isBase64(value)) throw new Error(`The ${field} is not valid base64. Pass ${INPUT_FORMS}.`);
+  return new Uint8Array(Buffer.from(normalizeBase64(value), "base64"));
+};
+
+/** Bytes and declared MIME type of a `data:` URI, base64 or percent-encoded. */
+const decodeDataUri = (value: string, field: string): { bytes: Uint8Array<ArrayBuffer>; mimeType?: string } => {
+  const [, header, payload] = DATA_URI.exec(value) ?? [];
+  if (header === undefined) throw new Error(`The ${field} is not a valid data: URI. Expected data:<mime type>;base64,<data>.`);
+
+  const [mimeType, ...params] = header.split(";").map((part) => part.trim());
+  if (params.some((param) => param.toLowerCase() === "base64")) {
+    return { bytes: decodeBase64(payload, `${field} data URI`), mimeType: mimeType || undefined };
+  }
+  try {
+    return { bytes: new Uint8Array(Buffer.from(decodeURIComponent(payload), "utf8")), mimeType: mimeType || undefined };
+  } catch {
+    throw new Error(`The ${field} data URI is not valid percent-encoded data.`);
+  }
+};
+
+/**
+ * Validate an image input and describe where it comes from, without reading
+ * file contents or fetching remote URLs.
+ */
+export const describeImageInput = async (
+  imageInput: string,
+  options: ImageInputOptions = {},
+  field = "image",
+): Promise<ImageInputSummary> => {
+  const imageId = parseImageReference(imageInput);
+  if (imageId !== undefined) {
+    const record = resolveReference(imageId, options);
+    return record.b64_json
+      ? { source: "image_id", image_id: imageId, bytes: decodeBase64(record.b64_json, field).length }
+      : { source: "image_id", image_id: imageId, url: record.url };
+  }
+
+  if (isDataUri(imageInput)) {
+    const { bytes, mimeType } = decodeDataUri(imageInput, field);
+    return { source: "data_uri", ...(mimeType ? { mime_type: mimeType } : {}), bytes: bytes.length };
+  }
+
+  if (isUrl(imageInput)) return { source: "url", url: imageInput };
+
+  if (isLocalPath(imageInput)) {
+    const path = await resolveLocalPath(imageInput, options.allowedRoots);
+    return { source: "file", path, bytes: (await stat(path)).size };
+  }
+
+  return { source: "base64", bytes: decodeBase64(imageInput, field).length };
+};
+
+/**
+ * Load an image input as a blob. `field` names the parameter in errors.
+ * Data URIs keep their declared MIME type as the blob type.
+ */
+export const fetchImageBlob = async (
+  imageInput: string,
+  options: ImageInputOptions = {},
+  signal?: AbortSignal,
+  field = "image",
+): Promise<Blob> => {
+  const imageId = parseImageReference(imageInput);
+  if (imageId !== undefined) {
+    const record = resolveReference(imageId, options);
+    if (record.b64_json) return new Blob([decodeBase64(record.b64_json, field)]);
+    // Recorded URLs came from Recraft, not the model, so the host rules do not apply
+    if (record.url) return fetchRemoteImage(record.url, options.remote, { signal, trusted: true });
+    throw new Error(`Image ${imageId} has neither a URL nor base64 data`);
+  }
+
+  if (isDataUri(imageInput)) {
+    const { bytes, mimeType } = decodeDataUri(imageInput, field);
+    return new Blob([bytes], mimeType ? { type: mimeType } : {});
+  }
+
+  if (isUrl(imageInput)) return fetchRemoteImage(imageInput, options.remote, { signal });
+
+  if (isLocalPath(imageInput)) {
+    const path = await resolveLocalPath(imageInput, options.allowedRoots);
+    return new Blob([await readFile(path)]);
+  }
+
+  return new Blob([decodeBase64(imageInput, field)]);
+};
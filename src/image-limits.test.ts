@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { checkImageLimits, checkMaskMatchesImage, imageLimitsFor } from "./image-limits.js";
+
+// PNG signature plus an IHDR chunk, which is all the header parsing needs
+const pngHeader = (width: number, height: number, padding = 0): Uint8Array => {
+  const bytes = Buffer.alloc(24 + padding);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]).copy(bytes);
+  bytes.write("IHDR", 12, "ascii");
+  bytes.writeUInt32BE(width, 16);
+  bytes.writeUInt32BE(height, 20);
+  return new Uint8Array(bytes);
+};
+
+describe("checkImageLimits", () => {
+  it("should accept images within the limits and return their dimensions", () => {
+    expect(checkImageLimits("image", pngHeader(1024, 1024), "crisp_upscale")).toEqual({
+      dimensions: { width: 1024, height: 1024 },
+    });
+  });
+
+  it("should reject files over 5 MB", () => {
+    expect(() => checkImageLimits("image", pngHeader(10, 10, 6 * 1024 * 1024), "remove_background")).toThrow(
+      "The image is 6.0 MB, but remove_background accepts at most 5.0 MB.",
+    );
+  });
+
+  it("should reject images wider or taller than 4096 px", () => {
+    expect(() => checkImageLimits("image", pngHeader(5000, 100), "vectorize_image")).toThrow(
+      "The image is 5000x100 px, but vectorize_image accepts at most 4096 px per side.",
+    );
+  });
+
+  it("should apply the lower megapixel limit of crisp_upscale", () => {
+    expect(imageLimitsFor("crisp_upscale").maxMegapixels).toBe(4);
+    expect(() => checkImageLimits("image", pngHeader(2500, 2000), "crisp_upscale")).toThrow(
+      "The image is 2500x2000 px (5.0 MP), but crisp_upscale only accepts images under 4 MP.",
+    );
+    expect(() => checkImageLimits("image", pngHeader(2500, 2000), "creative_upscale")).not.toThrow();
+    expect(() => checkImageLimits("image", pngHeader(4096, 4096), "creative_upscale")).toThrow("under 16 MP");
+  });
+
+  it("should only check the size of images without readable dimensions", () => {
+    expect(checkImageLimits("image", new TextEncoder().encode("<svg></svg>"), "vectorize_image")).toEqual({});
+  });
+});
+
+describe("checkMaskMatchesImage", () => {
+  it("should reject masks of a different size", () => {
+    const image = { dimensions: { width: 1024, height: 1024 } };
+
+    expect(() => checkMaskMatchesImage(image, { dimensions: { width: 1024, height: 1024 } })).not.toThrow();
+    expect(() => checkMaskMatchesImage(image, {})).not.toThrow();
+    expect(() => checkMaskMatchesImage(image, { dimensions: { width: 512, height: 512 } })).toThrow(
+      "The mask is 512x512 px, but the image is 1024x1024 px; they must be the same size.",
+    );
+  });
+});
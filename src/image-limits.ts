@@ -0,0 +1,72 @@
+import { readImageDimensions, type ImageDimensions } from "./image-format.js";
+
+/** What Recraft accepts for an uploaded image. */
+export interface ImageLimits {
+  maxBytes: number;
+  /** Exclusive: images must have fewer pixels than this many million. */
+  maxMegapixels: number;
+  maxDimension: number;
+}
+
+export const DEFAULT_IMAGE_LIMITS: ImageLimits = {
+  maxBytes: 5 * 1024 * 1024,
+  maxMegapixels: 16,
+  maxDimension: 4096,
+};
+
+const TOOL_LIMITS: Record<string, Partial<ImageLimits>> = {
+  crisp_upscale: { maxMegapixels: 4 },
+};
+
+export const imageLimitsFor = (tool: string): ImageLimits => ({ ...DEFAULT_IMAGE_LIMITS, ...TOOL_LIMITS[tool] });
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const formatDimensions = ({ width, height }: ImageDimensions): string => `${width}x${height} px`;
+
+export interface CheckedImage {
+  /** Undefined for formats whose header carries no dimensions, such as SVG. */
+  dimensions?: ImageDimensions;
+}
+
+/**
+ * Check an image against the limits of the tool it is uploaded to, reading
+ * its dimensions from the header. Throws an error naming the limit exceeded.
+ */
+export const checkImageLimits = (field: string, bytes: Uint8Array, tool: string): CheckedImage => {
+  const limits = imageLimitsFor(tool);
+  if (bytes.length > limits.maxBytes) {
+    throw new Error(
+      `The ${field} is ${formatBytes(bytes.length)}, but ${tool} accepts at most ${formatBytes(limits.maxBytes)}.`,
+    );
+  }
+
+  const dimensions = readImageDimensions(bytes);
+  if (!dimensions) return {};
+
+  const { width, height } = dimensions;
+  if (Math.max(width, height) > limits.maxDimension) {
+    throw new Error(
+      `The ${field} is ${formatDimensions(dimensions)}, but ${tool} accepts at most ${limits.maxDimension} px per side.`,
+    );
+  }
+  const megapixels = (width * height) / 1_000_000;
+  if (megapixels >= limits.maxMegapixels) {
+    throw new Error(
+      `The ${field} is ${formatDimensions(dimensions)} (${megapixels.toFixed(1)} MP), but ${tool} only accepts images under ${limits.maxMegapixels} MP.`,
+    );
+  }
+
+  return { dimensions };
+};
+
+/** Masks must cover the image exactly. Throws when both sizes are known and differ. */
+export const checkMaskMatchesImage = (image: CheckedImage, mask: CheckedImage): void => {
+  if (!image.dimensions || !mask.dimensions) return;
+  if (image.dimensions.width !== mask.dimensions.width || image.dimensions.height !== mask.dimensions.height) {
+    throw new Error(
+      `The mask is ${formatDimensions(mask.dimensions)}, but the image is ${formatDimensions(image.dimensions)}; they must be the same size.`,
+    );
+  }
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { ImageRegistry, imageUri, parseImageReference } from "./image-registry.js";
+
+describe("ImageRegistry", () => {
+  it("should record images with their operation and prompt", () => {
+    const registry = new ImageRegistry();
+    registry.record("generate_image", [{ image_id: "a", url: "https://img.test/a" }], "a cat");
+
+    expect(registry.get("a")).toMatchObject({
+      image_id: "a",
+      url: "https://img.test/a",
+      operation: "generate_image",
+      prompt: "a cat",
+    });
+  });
+
+  it("should list newest first", () => {
+    const registry = new ImageRegistry();
+    registry.record("generate_image", [{ image_id: "a" }]);
+    registry.record("vectorize_image", [{ image_id: "b" }]);
+
+    expect(registry.list().map((r) => r.image_id)).toEqual(["b", "a"]);
+  });
+
+  it("should evict the oldest entries when full", () => {
+    const registry = new ImageRegistry(2);
+    registry.record("generate_image", [{ image_id: "a" }, { image_id: "b" }, { image_id: "c" }]);
+
+    expect(registry.size).toBe(2);
+    expect(registry.get("a")).toBeUndefined();
+  });
+
+  it("should notify listeners until unsubscribed", () => {
+    const registry = new ImageRegistry();
+    const listener = vi.fn();
+    const unsubscribe = registry.onChange(listener);
+
+    registry.record("generate_image", [{ image_id: "a" }]);
+    registry.record("generate_image", []);
+    unsubscribe();
+    registry.record("generate_image", [{ image_id: "b" }]);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("parseImageReference", () => {
+  it("should read image_id: references and resource URIs", () => {
+    expect(parseImageReference("image_id:abc-123")).toBe("abc-123");
+    expect(parseImageReference(imageUri("a/b c"))).toBe("a/b c");
+  });
+
+  it("should ignore other inputs", () => {
+    expect(parseImageReference("https://img.test/a.png")).toBeUndefined();
+    expect(parseImageReference("iVBORw0KGgo=")).toBeUndefined();
+    expect(parseImageReference("image_id:")).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+export interface ImageRecord {
+  image_id: string;
+  url?: string;
+  b64_json?: string;
+  /** Tool that produced the image, e.g. generate_image or vectorize_image. */
+  operation: string;
+  prompt?: string;
+  created: number;
+}
+
+type ChangeListener = () => void;
+
+export const IMAGES_URI = "recraft://images";
+
+const IMAGE_ID_PREFIX = "image_id:";
+
+export const imageUri = (imageId: string): string => `${IMAGES_URI}/${encodeURIComponent(imageId)}`;
+
+/**
+ * The image ID an `image_id:<id>` or `recraft://images/<id>` input refers
+ * to, or undefined when the input is something else.
+ */
+export const parseImageReference = (value: string): string | undefined => {
+  if (value.startsWith(IMAGE_ID_PREFIX)) return value.slice(IMAGE_ID_PREFIX.length).trim() || undefined;
+  if (value.startsWith(`${IMAGES_URI}/`)) return decodeURIComponent(value.slice(IMAGES_URI.length + 1)) || undefined;
+  return undefined;
+};
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-process record of every image the client has received during this
+ * session. Oldest entries are evicted once the registry is full.
+ */
+export class ImageRegistry {
+  private readonly entries = new Map<string, ImageRecord>();
+  private readonly listeners = new Set<ChangeListener>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  record(
+    operation: string,
+    images: Array<{ image_id: string; url?: string; b64_json?: string }>,
+    prompt?: string,
+  ): void {
+    if (images.length === 0) return;
+
+    const created = Date.now();
+    for (const image of images) {
+      this.entries.delete(image.image_id);
+      this.entries.set(image.image_id, {
+        image_id: image.image_id,
+        url: image.url,
+        b64_json: image.b64_json,
+        operation,
+        prompt,
+        created,
+      });
+    }
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    for (const listener of this.listeners) listener();
+  }
+
+  get(imageId: string): ImageRecord | undefined {
+    return this.entries.get(imageId);
+  }
+
+  /** All recorded images, newest first. */
+  list(): ImageRecord[] {
+    return [...this.entries.values()].reverse();
+  }
+
+  onChange(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
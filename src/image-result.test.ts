@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolveImageResultOptions, toDryRunResult, toImageToolResult } from "./image-result.js";
+import { RecraftClient } from "./recraft-client.js";
+import { CreditBudget } from "./budget.js";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe("resolveImageResultOptions", () => {
+  it("should inline when b64_json is requested", () => {
+    const options = resolveImageResultOptions("generate_image", {}, { response_format: "b64_json" });
+    expect(options.inline).toBe(true);
+    expect(options.outputDir).toBeUndefined();
+  });
+
+  it("should inline when the server-wide option is on", () => {
+    const options = resolveImageResultOptions("generate_image", { inlineImages: true }, {});
+    expect(options.inline).toBe(true);
+  });
+
+  it("should not inline by default", () => {
+    expect(resolveImageResultOptions("generate_image", {}, { response_format: "url" }).inline).toBe(false);
+  });
+});
+
+describe("toImageToolResult", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should return only text when nothing extra is requested", async () => {
+    const result = await toImageToolResult("done", { credits: 1 }, [{ image_id: "a", url: "https://img.test/a" }], {
+      tool: "generate_image",
+    });
+
+    expect(result.content).toEqual([{ type: "text", text: "done" }]);
+    expect(result.structuredContent).toEqual({ credits: 1 });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should add image content blocks with the detected MIME type", async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(PNG_BYTES));
+
+    const result = await toImageToolResult("done", {}, [{ image_id: "a", url: "https://img.test/a" }], {
+      tool: "generate_image",
+      inline: true,
+    });
+
+    expect(result.content[1]).toEqual({
+      type: "image",
+      data: Buffer.from(PNG_BYTES).toString("base64"),
+      mimeType: "image/png",
+    });
+  });
+
+  it("should fall back to the URL for oversized images", async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(PNG_BYTES));
+
+    const result = await toImageToolResult("done", {}, [{ image_id: "big", url: "https://img.test/big" }], {
+      tool: "generate_image",
+      inline: true,
+      maxInlineBytes: 4,
+    });
+
+    expect(result.content).toHaveLength(1);
+    expect(result.content[0].type === "text" && result.content[0].text).toContain("over the 4-byte inline limit");
+  });
+
+  it("should download once when both saving and inlining", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "recraft-result-"));
+    vi.mocked(fetch).mockResolvedValue(new Response(PNG_BYTES));
+
+    try {
+      const result = await toImageToolResult("done", {}, [{ image_id: "a", url: "https://img.test/a" }], {
+        tool: "generate_image",
+        inline: true,
+        outputDir: dir,
+      });
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(result.content).toHaveLength(2);
+      expect(result.structuredContent.saved).toEqual([{ image_id: "a", path: join(dir, "a-generate_image.png") }]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("toDryRunResult", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should describe the request and estimate without calling the API", async () => {
+    const client = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 });
+
+    const result = await toDryRunResult(client, "image_to_image", {
+      image: "https://img.test/src.png",
+      prompt: "make it blue",
+      strength: 0.5,
+      n: 2,
+      model: undefined,
+    });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(result.structuredContent).toMatchObject({
+      dry_run: true,
+      request: {
+        method: "POST",
+        path: "/images/imageToImage",
+        contentType: "multipart/form-data",
+        fields: { prompt: "make it blue", strength: 0.5, n: 2 },
+        files: { image: { source: "url", url: "https://img.test/src.png" } },
+      },
+      estimate: { credits: 80 },
+      within_budget: true,
+    });
+  });
+
+  it("should report when the budget would refuse the call", async () => {
+    const client = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 }, {
+      budget: new CreditBudget({ session: 100 }),
+    });
+
+    const result = await toDryRunResult(client, "creative_upscale", { image: btoa("png") });
+
+    expect(result.structuredContent).toMatchObject({ within_budget: false, request: { files: { image: { source: "base64", bytes: 3 } } } });
+    expect(result.content[0].text).toContain("would be refused");
+  });
+
+  it("should fail validation for disallowed local files", async () => {
+    const client = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 });
+
+    await expect(toDryRunResult(client, "remove_background", { image: "/etc/passwd.png" }))
+      .rejects.toThrow("RECRAFT_ALLOWED_DIRS");
+  });
+});
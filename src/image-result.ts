@@ -0,0 +1,165 @@
+import { BudgetExceededError } from "./budget.js";
+import { estimateCost, formatEstimate, type CostedTool, type CostParams } from "./cost.js";
+import { detectImageType } from "./image-format.js";
+import {
+  downloadImage,
+  formatSavedImages,
+  resolveOutputDir,
+  saveImages,
+  type ImageLoader,
+  type OutputImage,
+} from "./output.js";
+import type { CallOptions } from "./progress.js";
+import type { RecraftClient } from "./recraft-client.js";
+import type { ServerOptions } from "./server.js";
+import { toImageResult, toTextResult, type ImageBlock } from "./tool-result.js";
+import type { ImageFormat, ResponseFormat } from "./types.js";
+
+export const DEFAULT_MAX_INLINE_BYTES = 1_048_576;
+
+export interface ImageResultOptions extends CallOptions {
+  tool: string;
+  outputDir?: string;
+  /** RECRAFT_OUTPUT_DIR, which `outputDir` must stay inside. */
+  outputRoot?: string;
+  imageFormat?: ImageFormat;
+  inline?: boolean;
+  maxInlineBytes?: number;
+}
+
+export interface ImageToolParams {
+  save_to?: string;
+  image_format?: ImageFormat;
+  response_format?: ResponseFormat;
+}
+
+export const resolveImageResultOptions = (
+  tool: string,
+  serverOptions: ServerOptions,
+  params: ImageToolParams,
+  call: CallOptions = {},
+): ImageResultOptions => ({
+  ...call,
+  tool,
+  outputDir: resolveOutputDir(params.save_to, serverOptions.outputDir),
+  outputRoot: serverOptions.outputDir,
+  imageFormat: params.image_format,
+  inline: params.response_format === "b64_json" || serverOptions.inlineImages === true,
+  maxInlineBytes: serverOptions.maxInlineBytes,
+});
+
+// Saving and inlining both need the bytes; download each image at most once
+const memoizeLoader = (load: ImageLoader): ImageLoader => {
+  const pending = new Map<string, Promise<Uint8Array>>();
+  return (image) => {
+    let bytes = pending.get(image.image_id);
+    if (!bytes) {
+      bytes = load(image);
+      pending.set(image.image_id, bytes);
+    }
+    return bytes;
+  };
+};
+
+const inlineImages = async (
+  images: OutputImage[],
+  load: ImageLoader,
+  maxBytes: number,
+): Promise<{ blocks: ImageBlock[]; notes: string[] }> => {
+  const blocks: ImageBlock[] = [];
+  const notes: string[] = [];
+
+  for (const image of images) {
+    try {
+      const bytes = await load(image);
+      const type = detectImageType(bytes);
+
+      if (!type) {
+        notes.push(`  Image ${image.image_id} could not be inlined (unrecognized format); use the URL instead.`);
+      } else if (bytes.length > maxBytes) {
+        notes.push(
+          `  Image ${image.image_id} is ${bytes.length} bytes, over the ${maxBytes}-byte inline limit; use the URL instead.`,
+        );
+      } else {
+        blocks.push({ data: Buffer.from(bytes).toString("base64"), mimeType: type.mimeType });
+      }
+    } catch (error) {
+      notes.push(`  Image ${image.image_id} could not be inlined: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { blocks, notes };
+};
+
+/**
+ * Build the result of an image-producing tool: the text summary plus any
+ * saved file paths and, when requested, inline MCP image content blocks.
+ */
+export const toImageToolResult = async (
+  text: string,
+  structuredContent: Record<string, unknown>,
+  images: OutputImage[],
+  options: ImageResultOptions,
+) => {
+  const load = memoizeLoader((image) => downloadImage(image, options.signal));
+  const lines = [text];
+
+  if (options.outputDir || options.inline) {
+    options.onProgress?.("download", `Downloading ${images.length} image(s)`);
+  }
+
+  const saved = options.outputDir
+    ? await saveImages(images, { dir: options.outputDir, root: options.outputRoot, tool: options.tool, imageFormat: options.imageFormat }, load)
+    : undefined;
+  if (saved) lines.push(...formatSavedImages(saved));
+
+  const inlined = options.inline
+    ? await inlineImages(images, load, options.maxInlineBytes ?? DEFAULT_MAX_INLINE_BYTES)
+    : undefined;
+  if (inlined) lines.push(...inlined.notes);
+
+  return toImageResult(
+    lines.join("\n"),
+    inlined?.blocks ?? [],
+    { ...structuredContent, ...(saved ? { saved } : {}) },
+  );
+};
+
+/**
+ * Why the credit budget would refuse spending the estimated credits, given
+ * per tool, or undefined if it allows it.
+ */
+export const budgetRefusal = async (client: RecraftClient, estimates: Record<string, number>): Promise<string | undefined> => {
+  try {
+    await client.budget.assertAvailableAll(estimates);
+    return undefined;
+  } catch (error) {
+    if (!(error instanceof BudgetExceededError)) throw error;
+    return error.message;
+  }
+};
+
+/**
+ * Result of a dry run: the validated request that would be sent, its
+ * estimated cost, and whether the credit budget would allow it.
+ */
+export const toDryRunResult = async (client: RecraftClient, tool: CostedTool, params: object) => {
+  const request = await client.previewRequest(tool, params);
+  const estimate = estimateCost(tool, params as CostParams);
+  const budgetError = await budgetRefusal(client, { [tool]: estimate.credits });
+
+  return toTextResult(
+    [
+      `Dry run: ${tool} would send ${request.method} ${request.path} (nothing was sent)`,
+      `  Estimated cost: ${formatEstimate(estimate)}`,
+      budgetError ? `  Budget: would be refused. ${budgetError}` : "  Budget: within limits",
+      `  Request: ${JSON.stringify({ fields: request.fields, files: request.files }, null, 2)}`,
+    ].join("\n"),
+    {
+      dry_run: true,
+      request,
+      estimate,
+      within_budget: budgetError === undefined,
+    } as unknown as Record<string, unknown>,
+  );
+};
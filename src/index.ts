@@ -3,18 +3,21 @@
 import { createRequire } from "node:module";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { RecraftClient } from "./recraft-client.js";
-import { createServer, parseToolsets } from "./server.js";
+import { createServer, parseToolsets, type ServerOptions } from "./server.js";
+import { parseCliOptions } from "./cli.js";
+import { HttpError, isLoopback, startHttpServer } from "./http.js";
+import { ClientPool, sessionApiToken } from "./client-pool.js";
 import { checkForUpdate } from "./update-checker.js";
+import { HistoryLedger } from "./history.js";
+import { CreditBudget, parseToolLimits } from "./budget.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { JobQueue } from "./jobs.js";
+import type { ImageInputOptions } from "./image-input.js";
 
 const require = createRequire(import.meta.url);
 const { name, version } = require("../package.json") as { name: string; version: string };
 
-const apiToken = process.env.RECRAFT_API_TOKEN;
-
-if (!apiToken) {
-  console.error("Missing required env var: RECRAFT_API_TOKEN");
-  process.exit(1);
-}
+const apiToken = process.env.RECRAFT_API_TOKEN || undefined;
 
 const cacheTtl = process.env.RECRAFT_CACHE_TTL !== undefined
   ? parseInt(process.env.RECRAFT_CACHE_TTL, 10) * 1000
@@ -22,13 +25,127 @@ const cacheTtl = process.env.RECRAFT_CACHE_TTL !== undefined
 const maxRetries = process.env.RECRAFT_MAX_RETRIES !== undefined
   ? parseInt(process.env.RECRAFT_MAX_RETRIES, 10)
   : 3;
-const client = new RecraftClient(apiToken, undefined, cacheTtl, { maxRetries });
+const parseSeconds = (value?: string): number | undefined =>
+  value !== undefined && value !== "" ? parseInt(value, 10) * 1000 : undefined;
+const retry = {
+  maxRetries,
+  get: { timeoutMs: parseSeconds(process.env.RECRAFT_REQUEST_TIMEOUT) },
+  post: {
+    timeoutMs: parseSeconds(process.env.RECRAFT_GENERATION_TIMEOUT),
+    // Off by default: a POST that failed this way may already have been charged
+    retryServerErrors: process.env.RECRAFT_RETRY_POST_SERVER_ERRORS === "true",
+    retryNetworkErrors: process.env.RECRAFT_RETRY_POST_NETWORK_ERRORS === "true",
+  },
+};
+const parseList = (value?: string): string[] | undefined =>
+  value
+    ?.split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+const allowedRoots = parseList(process.env.RECRAFT_ALLOWED_DIRS);
+const remote = {
+  allowedHosts: parseList(process.env.RECRAFT_ALLOWED_HOSTS),
+  privateHosts: parseList(process.env.RECRAFT_PRIVATE_HOSTS),
+  timeoutMs: parseSeconds(process.env.RECRAFT_IMAGE_FETCH_TIMEOUT),
+};
+const parseCredits = (value?: string): number | undefined =>
+  value !== undefined && value !== "" ? parseInt(value, 10) : undefined;
+const budgetLimits = {
+  session: parseCredits(process.env.RECRAFT_BUDGET_SESSION_CREDITS),
+  daily: parseCredits(process.env.RECRAFT_BUDGET_DAILY_CREDITS),
+  perTool: parseToolLimits(process.env.RECRAFT_BUDGET_TOOL_CREDITS),
+};
+const parseRate = (value?: string): number | undefined =>
+  value !== undefined && value !== "" ? Number(value) : undefined;
+const rateLimits = {
+  requestsPerSecond: parseRate(process.env.RECRAFT_RATE_LIMIT_RPS),
+  imagesPerMinute: parseRate(process.env.RECRAFT_RATE_LIMIT_IMAGES_PER_MINUTE),
+};
+// Recraft enforces rate limits per API token, so each token gets its own limiter
+const createClient = (
+  token: string,
+  budget = new CreditBudget(budgetLimits),
+  imageInput: ImageInputOptions = { allowedRoots, remote },
+): RecraftClient =>
+  new RecraftClient(token, undefined, cacheTtl, retry, {
+    imageInput,
+    budget,
+    rateLimiter: new RateLimiter(rateLimits),
+  });
+// Tenants bring their own Recraft account, so they get none of the operator's
+// disk access or internal hosts: no local file inputs and no private URL hosts
+const tenantImageInput: ImageInputOptions = { remote: { ...remote, privateHosts: undefined } };
+const jobOptions = { concurrency: parseRate(process.env.RECRAFT_JOB_CONCURRENCY) };
 const toolsets = parseToolsets(process.env.RECRAFT_TOOLSETS);
-const server = createServer(client, toolsets);
+const serverOptions: ServerOptions = {
+  outputDir: process.env.RECRAFT_OUTPUT_DIR || undefined,
+  inlineImages: process.env.RECRAFT_INLINE_IMAGES === "true",
+  maxInlineBytes: process.env.RECRAFT_MAX_INLINE_BYTES !== undefined
+    ? parseInt(process.env.RECRAFT_MAX_INLINE_BYTES, 10)
+    : undefined,
+  history: process.env.RECRAFT_HISTORY_FILE
+    ? new HistoryLedger(process.env.RECRAFT_HISTORY_FILE)
+    : undefined,
+  jobs: new JobQueue(process.env.RECRAFT_JOBS_FILE || undefined, jobOptions),
+};
 
 const main = async (): Promise<void> => {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const cli = parseCliOptions(process.argv.slice(2), process.env);
+
+  if (!apiToken && cli.transport === "stdio") {
+    console.error("Missing required env var: RECRAFT_API_TOKEN");
+    process.exit(1);
+  }
+
+  // The env token's client is the only one whose daily spend is persisted
+  const defaultClient = apiToken
+    ? createClient(apiToken, new CreditBudget(budgetLimits, process.env.RECRAFT_BUDGET_FILE || undefined))
+    : undefined;
+
+  if (cli.transport === "http") {
+    if (apiToken && !cli.authToken && !isLoopback(cli.host)) {
+      console.error(`Warning: serving on ${cli.host} without RECRAFT_HTTP_AUTH_TOKEN; anyone who can reach it can spend your credits.`);
+    }
+
+    const pool = new ClientPool((token) => createClient(token, undefined, tenantImageInput));
+    // Tenant jobs live in memory alongside their pooled client
+    const tenantJobs = new WeakMap<RecraftClient, JobQueue>();
+    const jobsFor = (client: RecraftClient): JobQueue => {
+      let jobs = tenantJobs.get(client);
+      if (!jobs) {
+        jobs = new JobQueue(undefined, jobOptions);
+        tenantJobs.set(client, jobs);
+      }
+      return jobs;
+    };
+
+    const http = await startHttpServer((req, initialize) => {
+      const sessionToken = sessionApiToken(req, initialize);
+      if (sessionToken) {
+        // Tenants share no state: own client, no shared history ledger, and nothing saved to the server's disk
+        const client = pool.get(sessionToken);
+        return createServer(client, toolsets, {
+          ...serverOptions,
+          outputDir: undefined,
+          history: undefined,
+          jobs: jobsFor(client),
+        });
+      }
+      if (defaultClient) return createServer(defaultClient, toolsets, serverOptions);
+      throw new HttpError("Missing Recraft API token. Send it in the X-Recraft-Api-Token header.", 401);
+    }, cli);
+    console.error(`Recraft MCP server listening on http://${cli.host}:${http.address.port}/mcp`);
+
+    const shutdown = (): void => {
+      void http.close().finally(() => process.exit(0));
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+  } else {
+    const server = createServer(defaultClient!, toolsets, serverOptions);
+    await server.connect(new StdioServerTransport());
+  }
+
   // Fire-and-forget — don't block server startup
   void checkForUpdate(name, version);
 };
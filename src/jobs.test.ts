@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JobQueue, type Job } from "./jobs.js";
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+const settled = async (queue: JobQueue, jobId: string): Promise<Job> => {
+  await vi.waitFor(async () => {
+    const job = await queue.get(jobId);
+    if (job?.status === "queued" || job?.status === "running") throw new Error("still running");
+  });
+  return (await queue.get(jobId))!;
+};
+
+describe("JobQueue", () => {
+  it("should run a job and keep its result", async () => {
+    const queue = new JobQueue();
+    const job = await queue.start("generate_image", async () => ({ text: "done", structuredContent: { credits: 40 } }));
+
+    expect(job).toMatchObject({ tool: "generate_image", job_id: expect.any(String) });
+    expect(await settled(queue, job.job_id)).toMatchObject({
+      tool: "generate_image",
+      status: "succeeded",
+      result: { text: "done", structuredContent: { credits: 40 } },
+    });
+  });
+
+  it("should mark jobs failed when the runner throws or returns an error result", async () => {
+    const queue = new JobQueue();
+    const thrown = await queue.start("vectorize_image", async () => {
+      throw new Error("boom");
+    });
+    const errored = await queue.start("vectorize_image", async () => ({ text: "Recraft API error", isError: true }));
+
+    expect(await settled(queue, thrown.job_id)).toMatchObject({ status: "failed", error: "boom" });
+    expect(await settled(queue, errored.job_id)).toMatchObject({ status: "failed", error: "Recraft API error" });
+  });
+
+  it("should queue jobs beyond the concurrency limit", async () => {
+    const queue = new JobQueue(undefined, { concurrency: 1 });
+    const gate = deferred<void>();
+    const first = await queue.start("creative_upscale", async () => {
+      await gate.promise;
+      return { text: "first" };
+    });
+    const second = await queue.start("creative_upscale", async () => ({ text: "second" }));
+
+    expect((await queue.get(first.job_id))?.status).toBe("running");
+    expect((await queue.get(second.job_id))?.status).toBe("queued");
+
+    gate.resolve();
+    expect((await settled(queue, second.job_id)).status).toBe("succeeded");
+  });
+
+  it("should cancel running jobs through their signal and ignore their result", async () => {
+    const queue = new JobQueue();
+    let signal: AbortSignal | undefined;
+    const job = await queue.start("creative_upscale", (s) => {
+      signal = s;
+      return new Promise((resolve) => s.addEventListener("abort", () => resolve({ text: "late" })));
+    });
+
+    const cancelled = await queue.cancel(job.job_id);
+    expect(cancelled?.status).toBe("cancelled");
+    expect(signal?.aborted).toBe(true);
+    const finished = await settled(queue, job.job_id);
+    expect(finished.status).toBe("cancelled");
+    expect(finished.result).toBeUndefined();
+    expect(await queue.cancel("missing")).toBeUndefined();
+  });
+
+  it("should list jobs newest first with filters", async () => {
+    const queue = new JobQueue();
+    const a = await queue.start("generate_image", async () => ({ text: "a" }));
+    const b = await queue.start("vectorize_image", async () => ({ text: "b" }));
+    await settled(queue, a.job_id);
+    await settled(queue, b.job_id);
+
+    expect((await queue.list()).map((job) => job.job_id)).toEqual([b.job_id, a.job_id]);
+    expect((await queue.list({ tool: "generate_image" })).map((job) => job.job_id)).toEqual([a.job_id]);
+    expect(await queue.list({ status: "failed" })).toEqual([]);
+  });
+
+  it("should notify listeners of every state change", async () => {
+    const queue = new JobQueue();
+    const statuses: string[] = [];
+    queue.onChange((job) => statuses.push(job.status));
+
+    const job = await queue.start("generate_image", async () => ({ text: "ok" }));
+    await settled(queue, job.job_id);
+
+    expect(statuses).toEqual(["queued", "running", "succeeded"]);
+  });
+
+  it("should drop the oldest finished jobs beyond the limit", async () => {
+    const queue = new JobQueue(undefined, { maxFinished: 1 });
+    const a = await queue.start("generate_image", async () => ({ text: "a" }));
+    await settled(queue, a.job_id);
+    const b = await queue.start("generate_image", async () => ({ text: "b" }));
+    await settled(queue, b.job_id);
+
+    expect(await queue.get(a.job_id)).toBeUndefined();
+    expect(await queue.get(b.job_id)).toBeDefined();
+  });
+
+  describe("persistence", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "recraft-jobs-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should keep finished results across restarts", async () => {
+      const path = join(dir, "nested", "jobs.json");
+      const queue = new JobQueue(path);
+      const job = await queue.start("generate_image", async () => ({ text: "saved" }));
+      await settled(queue, job.job_id);
+      await queue.flush();
+
+      const restarted = new JobQueue(path);
+      expect(await restarted.get(job.job_id)).toMatchObject({ status: "succeeded", result: { text: "saved" } });
+    });
+
+    it("should fail jobs that were unfinished when the server stopped", async () => {
+      const path = join(dir, "jobs.json");
+      const running: Job = { job_id: "j1", tool: "creative_upscale", status: "running", created: "2026-01-01T00:00:00.000Z" };
+      await writeFile(path, JSON.stringify({ jobs: [running] }));
+
+      const queue = new JobQueue(path);
+      expect(await queue.get("j1")).toMatchObject({ status: "failed", error: expect.stringContaining("server stopped") });
+
+      await queue.flush();
+      expect(JSON.parse(await readFile(path, "utf8")).jobs[0].status).toBe("failed");
+    });
+
+    it("should start empty when the file is missing or corrupt", async () => {
+      const path = join(dir, "jobs.json");
+      await writeFile(path, "{not json");
+      expect(await new JobQueue(path).list()).toEqual([]);
+    });
+  });
+});
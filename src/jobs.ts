@@ -0,0 +1,220 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/** What a finished tool call returned, minus inline image data. */
+export interface JobResult {
+  text: string;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface Job {
+  job_id: string;
+  tool: string;
+  status: JobStatus;
+  created: string;
+  started?: string;
+  finished?: string;
+  result?: JobResult;
+  error?: string;
+}
+
+export interface JobQuery {
+  status?: JobStatus;
+  tool?: string;
+  limit?: number;
+}
+
+export interface JobQueueOptions {
+  /** Jobs running at once; the rest wait as `queued`. */
+  concurrency?: number;
+  /** Finished jobs kept before the oldest are dropped. */
+  maxFinished?: number;
+}
+
+export type JobRunner = (signal: AbortSignal) => Promise<JobResult>;
+
+type JobListener = (job: Job) => void;
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_FINISHED = 200;
+
+const INTERRUPTED =
+  "The server stopped before this job finished. It may still have been charged; check recraft://images and get_current_user before running it again.";
+
+export const isFinished = (job: Job): boolean => job.status !== "queued" && job.status !== "running";
+
+/**
+ * Runs tool calls in the background and keeps their state, optionally in a
+ * JSON file so finished results survive a restart. Jobs that were still
+ * queued or running when the server stopped are marked failed on load,
+ * since a half-finished paid call cannot be resumed safely.
+ */
+export class JobQueue {
+  private readonly jobs = new Map<string, Job>();
+  private readonly runners = new Map<string, JobRunner>();
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly listeners = new Set<JobListener>();
+  private readonly concurrency: number;
+  private readonly maxFinished: number;
+  private loaded?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  private running = 0;
+
+  constructor(
+    readonly path?: string,
+    options: JobQueueOptions = {},
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.maxFinished = options.maxFinished ?? DEFAULT_MAX_FINISHED;
+  }
+
+  async start(tool: string, run: JobRunner): Promise<Job> {
+    await this.load();
+    const job: Job = { job_id: randomUUID(), tool, status: "queued", created: new Date().toISOString() };
+    this.jobs.set(job.job_id, job);
+    this.runners.set(job.job_id, run);
+    this.update(job);
+    this.pump();
+    return { ...job };
+  }
+
+  async get(jobId: string): Promise<Job | undefined> {
+    await this.load();
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  /** Jobs newest first, optionally filtered. */
+  async list(query: JobQuery = {}): Promise<Job[]> {
+    await this.load();
+    const jobs = [...this.jobs.values()]
+      .reverse()
+      .filter((job) => (!query.status || job.status === query.status) && (!query.tool || job.tool === query.tool));
+    return (query.limit !== undefined ? jobs.slice(0, query.limit) : jobs).map((job) => ({ ...job }));
+  }
+
+  /**
+   * Cancel a queued or running job. Credits for a request Recraft already
+   * accepted are not refunded. Returns undefined for unknown jobs.
+   */
+  async cancel(jobId: string): Promise<Job | undefined> {
+    await this.load();
+    const job = this.jobs.get(jobId);
+    if (!job) return undefined;
+    if (isFinished(job)) return { ...job };
+
+    this.runners.delete(jobId);
+    this.controllers.get(jobId)?.abort(new Error("Job cancelled"));
+    this.finish(job, { status: "cancelled" });
+    return { ...job };
+  }
+
+  /** Called whenever a job changes state. */
+  onChange(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Resolves once every state change so far has been written to disk. */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private pump(): void {
+    for (const job of this.jobs.values()) {
+      if (this.running >= this.concurrency) return;
+      const run = this.runners.get(job.job_id);
+      if (job.status === "queued" && run) void this.execute(job, run);
+    }
+  }
+
+  private async execute(job: Job, run: JobRunner): Promise<void> {
+    const controller = new AbortController();
+    this.runners.delete(job.job_id);
+    this.controllers.set(job.job_id, controller);
+    this.running++;
+    job.status = "running";
+    job.started = new Date().toISOString();
+    this.update(job);
+
+    try {
+      const result = await run(controller.signal);
+      if (job.status === "running") {
+        this.finish(job, result.isError ? { status: "failed", result, error: result.text } : { status: "succeeded", result });
+      }
+    } catch (error) {
+      if (job.status === "running") {
+        this.finish(job, { status: "failed", error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      this.controllers.delete(job.job_id);
+      this.running--;
+      this.pump();
+    }
+  }
+
+  private finish(job: Job, outcome: Pick<Job, "status" | "result" | "error">): void {
+    Object.assign(job, outcome, { finished: new Date().toISOString() });
+    this.prune();
+    this.update(job);
+  }
+
+  private prune(): void {
+    const finished = [...this.jobs.values()].filter(isFinished);
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.maxFinished))) {
+      this.jobs.delete(job.job_id);
+    }
+  }
+
+  private update(job: Job): void {
+    this.save();
+    for (const listener of this.listeners) listener({ ...job });
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.read();
+    return this.loaded;
+  }
+
+  private async read(): Promise<void> {
+    if (!this.path) return;
+
+    let stored: Job[];
+    try {
+      stored = (JSON.parse(await readFile(this.path, "utf8")) as { jobs?: Job[] }).jobs ?? [];
+    } catch {
+      // Missing or unreadable state starts an empty queue
+      return;
+    }
+
+    const interrupted = new Date().toISOString();
+    for (const job of stored) {
+      if (!isFinished(job)) Object.assign(job, { status: "failed", error: INTERRUPTED, finished: interrupted });
+      this.jobs.set(job.job_id, job);
+    }
+    this.save();
+  }
+
+  // Writes are chained so an older snapshot never lands after a newer one
+  private save(): void {
+    const { path } = this;
+    if (!path) return;
+
+    const snapshot = JSON.stringify({ jobs: [...this.jobs.values()] });
+    this.saving = this.saving
+      .then(async () => {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(`${path}.tmp`, snapshot, "utf8");
+        await rename(`${path}.tmp`, path);
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to save job state:", error);
+      });
+  }
+}
@@ -0,0 +1,121 @@
+import { inflateSync } from "node:zlib";
+import { describe, it, expect } from "vitest";
+import { buildMask, encodeGrayscalePng, findMaskIssues, MAX_MASK_SAMPLES, renderMask, resolveMaskInput } from "./mask.js";
+import { detectImageType } from "./image-format.js";
+
+const at = (pixels: Uint8Array, width: number, x: number, y: number): number => pixels[y * width + x];
+
+describe("renderMask", () => {
+  it("should fill rectangles given in percent", () => {
+    const pixels = renderMask({ width: 10, height: 10, shapes: [{ shape: "rect", x: 50, y: 0, width: 50, height: 50 }] });
+
+    expect(at(pixels, 10, 5, 0)).toBe(255);
+    expect(at(pixels, 10, 9, 4)).toBe(255);
+    expect(at(pixels, 10, 4, 0)).toBe(0);
+    expect(at(pixels, 10, 5, 5)).toBe(0);
+    expect(pixels.filter((value) => value === 255)).toHaveLength(25);
+  });
+
+  it("should fill ellipses and polygons given in pixels", () => {
+    const ellipse = renderMask({ width: 20, height: 20, unit: "px", shapes: [{ shape: "ellipse", x: 0, y: 0, width: 20, height: 20 }] });
+    expect(at(ellipse, 20, 10, 10)).toBe(255);
+    expect(at(ellipse, 20, 0, 0)).toBe(0);
+    expect(at(ellipse, 20, 19, 19)).toBe(0);
+
+    const triangle = renderMask({
+      width: 10,
+      height: 10,
+      unit: "px",
+      shapes: [{ shape: "polygon", points: [[0, 0], [10, 0], [0, 10]] }],
+    });
+    expect(at(triangle, 10, 1, 1)).toBe(255);
+    expect(at(triangle, 10, 8, 8)).toBe(0);
+  });
+
+  it("should feather edges and invert", () => {
+    const spec = { width: 40, height: 40, unit: "px" as const, feather: 10, shapes: [{ shape: "rect" as const, x: 0, y: 0, width: 20, height: 40 }] };
+    const pixels = renderMask(spec);
+
+    expect(at(pixels, 40, 5, 20)).toBe(255);
+    expect(at(pixels, 40, 19, 20)).toBeGreaterThan(128);
+    expect(at(pixels, 40, 20, 20)).toBeLessThan(128);
+    expect(at(pixels, 40, 20, 20)).toBeGreaterThan(0);
+    expect(at(pixels, 40, 30, 20)).toBe(0);
+
+    const inverted = renderMask({ ...spec, invert: true });
+    expect(at(inverted, 40, 5, 20)).toBe(0);
+    expect(at(inverted, 40, 30, 20)).toBe(255);
+  });
+
+  it("should feather polygons like a per-pixel distance to every edge", () => {
+    const points: Array<[number, number]> = [[4, 2], [28, 6], [18, 14], [30, 28], [6, 24], [12, 14]];
+    const feather = 6;
+    const pixels = renderMask({ width: 32, height: 32, unit: "px", feather, shapes: [{ shape: "polygon", points }] });
+
+    const segment = (x: number, y: number, [ax, ay]: [number, number], [bx, by]: [number, number]): number => {
+      const t = Math.max(0, Math.min(1, ((x - ax) * (bx - ax) + (y - ay) * (by - ay)) / ((bx - ax) ** 2 + (by - ay) ** 2)));
+      return Math.hypot(x - (ax + t * (bx - ax)), y - (ay + t * (by - ay)));
+    };
+    for (let y = 0; y < 32; y++) {
+      for (let x = 0; x < 32; x++) {
+        const [cx, cy] = [x + 0.5, y + 0.5];
+        let inside = false;
+        let nearest = Infinity;
+        points.forEach(([xi, yi], i) => {
+          const [xj, yj] = points[(i + points.length - 1) % points.length];
+          if (yi > cy !== yj > cy && cx < ((xj - xi) * (cy - yi)) / (yj - yi) + xi) inside = !inside;
+          nearest = Math.min(nearest, segment(cx, cy, [xj, yj], [xi, yi]));
+        });
+        const expected = Math.round(Math.min(1, Math.max(0, 0.5 + (inside ? nearest : -nearest) / feather)) * 255);
+        expect(Math.abs(at(pixels, 32, x, y) - expected)).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it("should refuse specs that would take too long to render", () => {
+    const points = Array.from({ length: 100 }, (_, i): [number, number] => [
+      50 + 45 * Math.cos((i / 100) * 2 * Math.PI),
+      50 + 45 * Math.sin((i / 100) * 2 * Math.PI),
+    ]);
+    const spec = { width: 4096, height: 4096, feather: 512, shapes: Array.from({ length: 50 }, () => ({ shape: "polygon" as const, points })) };
+
+    expect(findMaskIssues(spec).join(" ")).toContain(`over the limit of ${MAX_MASK_SAMPLES}`);
+    expect(() => renderMask(spec)).toThrow("pixel samples to render");
+    expect(findMaskIssues({ ...spec, shapes: spec.shapes.slice(0, 1), feather: 16 })).toEqual([]);
+  });
+
+  it("should reject shapes that select nothing", () => {
+    expect(findMaskIssues({ width: 10, height: 10, shapes: [{ shape: "rect", x: 120, y: 0, width: 10, height: 10 }] })).toEqual([
+      "Shape 1 (rect) lies entirely outside the 10x10 mask.",
+    ]);
+    expect(() =>
+      renderMask({ width: 10, height: 10, shapes: [{ shape: "polygon", points: [[0, 0], [5, 5], [9, 9]] }] }),
+    ).toThrow("Invalid mask: Shape 1 (polygon) has no area.");
+  });
+});
+
+describe("encodeGrayscalePng", () => {
+  it("should write a valid grayscale PNG", () => {
+    const png = encodeGrayscalePng(2, 2, new Uint8Array([0, 255, 128, 64]));
+
+    expect(detectImageType(png)?.mimeType).toBe("image/png");
+    expect(png.readUInt32BE(16)).toBe(2);
+    expect(png.readUInt32BE(20)).toBe(2);
+    expect(png[25]).toBe(0);
+
+    // IDAT follows the 8-byte signature and the 25-byte IHDR chunk
+    const idatLength = png.readUInt32BE(33);
+    expect(png.toString("ascii", 37, 41)).toBe("IDAT");
+    expect([...inflateSync(png.subarray(41, 41 + idatLength))]).toEqual([0, 0, 255, 0, 128, 64]);
+    expect(png.subarray(-8, -4).toString("ascii")).toBe("IEND");
+  });
+});
+
+describe("resolveMaskInput", () => {
+  it("should pass strings through and render specs to base64 PNG data", () => {
+    const spec = { width: 4, height: 4, shapes: [{ shape: "rect" as const, x: 0, y: 0, width: 50, height: 50 }] };
+
+    expect(resolveMaskInput("image_id:abc")).toBe("image_id:abc");
+    expect(resolveMaskInput(spec)).toBe(buildMask(spec).toString("base64"));
+  });
+});
@@ -0,0 +1,295 @@
+import { deflateSync } from "node:zlib";
+
+export const MAX_MASK_DIMENSION = 4096;
+/** Most pixel samples a mask may take to render; rendering blocks the event loop. */
+export const MAX_MASK_SAMPLES = 100_000_000;
+
+export type MaskUnit = "percent" | "px";
+
+/** Rectangle or ellipse, given by its bounding box from the top-left corner. */
+export interface MaskBox {
+  shape: "rect" | "ellipse";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MaskPolygon {
+  shape: "polygon";
+  /** Corners as [x, y] pairs, in order. */
+  points: Array<[number, number]>;
+}
+
+export type MaskShape = MaskBox | MaskPolygon;
+
+export interface MaskSpec {
+  width: number;
+  height: number;
+  shapes: MaskShape[];
+  /** Units of the shape coordinates. Default: percent of the mask. */
+  unit?: MaskUnit;
+  /** Width in pixels of the soft edge around each shape. Default: 0 (hard edges). */
+  feather?: number;
+  /** Swap white and black, so everything outside the shapes is selected. */
+  invert?: boolean;
+}
+
+interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/** A shape in pixel space: its bounds and how much of each pixel it covers. */
+interface PixelShape {
+  bounds: Bounds;
+  /**
+   * Write the coverage (0-1) of pixels `left` to `right` (exclusive) of row
+   * `y` into `row`, sampling at pixel centers. The feather ramps across the
+   * edge, centered on it.
+   */
+  coverRow: (y: number, left: number, right: number, feather: number, row: Float32Array) => void;
+  /** Distance samples drawing the feathered edge takes beyond the bounds, for the render cap. */
+  edgeSamples: (reach: number) => number;
+}
+
+type Point = [number, number];
+
+const coverage = (distance: number, feather: number): number =>
+  feather > 0 ? Math.min(1, Math.max(0, 0.5 + distance / feather)) : distance >= 0 ? 1 : 0;
+
+// Shapes whose signed distance to the edge (positive inside) is cheap to compute everywhere
+const distanceShape = (bounds: Bounds, distance: (x: number, y: number) => number): PixelShape => ({
+  bounds,
+  coverRow: (y, left, right, feather, row) => {
+    for (let x = left; x < right; x++) row[x] = coverage(distance(x + 0.5, y + 0.5), feather);
+  },
+  edgeSamples: () => 0,
+});
+
+const boxShape = (shape: MaskBox, toPx: (point: Point) => Point): PixelShape => {
+  const [left, top] = toPx([shape.x, shape.y]);
+  const [right, bottom] = toPx([shape.x + shape.width, shape.y + shape.height]);
+  const bounds = { left, top, right, bottom };
+
+  if (shape.shape === "ellipse") {
+    const cx = (left + right) / 2;
+    const cy = (top + bottom) / 2;
+    const rx = (right - left) / 2;
+    const ry = (bottom - top) / 2;
+    // Scaled radial distance; exact for circles and close enough for a mask edge otherwise
+    return distanceShape(bounds, (x, y) => (1 - Math.hypot((x - cx) / rx, (y - cy) / ry)) * Math.min(rx, ry));
+  }
+
+  return distanceShape(bounds, (x, y) => {
+    const dx = Math.max(left - x, x - right);
+    const dy = Math.max(top - y, y - bottom);
+    return -(Math.hypot(Math.max(dx, 0), Math.max(dy, 0)) + Math.min(Math.max(dx, dy), 0));
+  });
+};
+
+const segmentDistance = (x: number, y: number, [ax, ay]: Point, [bx, by]: Point): number => {
+  const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - ax) * (bx - ax) + (y - ay) * (by - ay)) / lengthSquared));
+  return Math.hypot(x - (ax + t * (bx - ax)), y - (ay + t * (by - ay)));
+};
+
+/**
+ * Polygons are filled by scanline with the even-odd rule, so a row costs its
+ * width plus one crossing per edge. Feathered edges only measure distances
+ * for pixels within reach of an edge; every other pixel is fully in or out.
+ */
+const polygonShape = (shape: MaskPolygon, toPx: (point: Point) => Point): PixelShape => {
+  const points = shape.points.map(toPx);
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const edges = points.map((point, i): [Point, Point] => [points[i === 0 ? points.length - 1 : i - 1], point]);
+
+  return {
+    bounds: { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) },
+    coverRow: (y, left, right, feather, row) => {
+      const cy = y + 0.5;
+      const crossings: number[] = [];
+      for (const [[ax, ay], [bx, by]] of edges) {
+        if (ay > cy !== by > cy) crossings.push(ax + ((cy - ay) * (bx - ax)) / (by - ay));
+      }
+      crossings.sort((a, b) => a - b);
+
+      // Centers between the 2k-th and (2k+1)-th crossing are inside
+      const nearest = new Float32Array(right - left).fill(Infinity);
+      const inside = new Uint8Array(right - left);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const start = Math.max(left, Math.ceil(crossings[i] - 0.5));
+        const end = Math.min(right, Math.ceil(crossings[i + 1] - 0.5));
+        if (end > start) inside.fill(1, start - left, end - left);
+      }
+
+      const reach = feather / 2 + 1;
+      for (const [a, b] of feather > 0 ? edges : []) {
+        const [ax, ay] = a;
+        const [bx, by] = b;
+        if (Math.min(ay, by) - reach > cy || Math.max(ay, by) + reach < cy) continue;
+        // The part of the edge within reach of this row, widened by reach on both sides
+        const t0 = ay === by ? 0 : Math.max(0, Math.min(1, (cy - reach - ay) / (by - ay)));
+        const t1 = ay === by ? 1 : Math.max(0, Math.min(1, (cy + reach - ay) / (by - ay)));
+        const x0 = ax + t0 * (bx - ax);
+        const x1 = ax + t1 * (bx - ax);
+        const from = Math.max(left, Math.floor(Math.min(x0, x1) - reach));
+        const to = Math.min(right, Math.ceil(Math.max(x0, x1) + reach));
+        for (let x = from; x < to; x++) {
+          nearest[x - left] = Math.min(nearest[x - left], segmentDistance(x + 0.5, cy, a, b));
+        }
+      }
+
+      for (let x = left; x < right; x++) {
+        const distance = nearest[x - left];
+        row[x] = coverage(inside[x - left] ? distance : -distance, feather);
+      }
+    },
+    edgeSamples: (reach) =>
+      edges.reduce((sum, [[ax, ay], [bx, by]]) => sum + (Math.abs(bx - ax) + Math.abs(by - ay) + 2 * reach) * 2 * reach, 0),
+  };
+};
+
+const toPixelShape = (shape: MaskShape, { width, height, unit }: MaskSpec): PixelShape => {
+  const toPx = ([x, y]: Point): Point => (unit === "px" ? [x, y] : [(x / 100) * width, (y / 100) * height]);
+  return shape.shape === "polygon" ? polygonShape(shape, toPx) : boxShape(shape, toPx);
+};
+
+// How far from a shape's edge its feather reaches, with a pixel to spare
+const reachOf = (spec: MaskSpec): number => (spec.feather ?? 0) / 2 + 1;
+
+// The pixels a shape may cover: its bounds widened by the feather's reach, within the mask
+const drawArea = (bounds: Bounds, spec: MaskSpec): Bounds => {
+  const reach = reachOf(spec);
+  return {
+    left: Math.max(0, Math.floor(bounds.left - reach)),
+    right: Math.max(0, Math.min(spec.width, Math.ceil(bounds.right + reach))),
+    top: Math.max(0, Math.floor(bounds.top - reach)),
+    bottom: Math.max(0, Math.min(spec.height, Math.ceil(bounds.bottom + reach))),
+  };
+};
+
+// Shoelace formula; zero for degenerate polygons such as points on one line
+const polygonArea = (points: Point[]): number =>
+  Math.abs(points.reduce((sum, [x, y], i) => {
+    const [nx, ny] = points[(i + 1) % points.length];
+    return sum + x * ny - nx * y;
+  }, 0)) / 2;
+
+/** Problems with a mask spec that rendering would otherwise hide, such as shapes entirely outside the mask. */
+export const findMaskIssues = (spec: MaskSpec): string[] => {
+  const issues: string[] = [];
+  if (spec.width > MAX_MASK_DIMENSION || spec.height > MAX_MASK_DIMENSION) {
+    issues.push(`Masks can be at most ${MAX_MASK_DIMENSION}x${MAX_MASK_DIMENSION} pixels.`);
+  }
+
+  let samples = 0;
+  spec.shapes.forEach((shape, index) => {
+    const pixelShape = toPixelShape(shape, spec);
+    const { bounds } = pixelShape;
+    const area = drawArea(bounds, spec);
+    samples += (area.right - area.left) * (area.bottom - area.top) + pixelShape.edgeSamples(reachOf(spec));
+    if (bounds.right <= bounds.left || bounds.bottom <= bounds.top || (shape.shape === "polygon" && polygonArea(shape.points) === 0)) {
+      issues.push(`Shape ${index + 1} (${shape.shape}) has no area.`);
+    } else if (bounds.right <= 0 || bounds.bottom <= 0 || bounds.left >= spec.width || bounds.top >= spec.height) {
+      issues.push(`Shape ${index + 1} (${shape.shape}) lies entirely outside the ${spec.width}x${spec.height} mask.`);
+    }
+  });
+
+  if (samples > MAX_MASK_SAMPLES) {
+    issues.push(
+      `Mask needs about ${Math.round(samples)} pixel samples to render, over the limit of ${MAX_MASK_SAMPLES}; ` +
+        "use fewer or smaller shapes, fewer polygon points or a smaller feather.",
+    );
+  }
+  return issues;
+};
+
+/**
+ * Rasterize a mask spec to 8-bit grayscale pixels, row by row: white (255)
+ * inside the shapes and black outside, or the reverse when inverted.
+ * Overlapping shapes merge. Specs over MAX_MASK_SAMPLES are refused.
+ */
+export const renderMask = (spec: MaskSpec): Uint8Array => {
+  const issues = findMaskIssues(spec);
+  if (issues.length > 0) throw new Error(`Invalid mask: ${issues.join(" ")}`);
+
+  const { width } = spec;
+  const feather = spec.feather ?? 0;
+  const pixels = new Uint8Array(width * spec.height);
+  const row = new Float32Array(width);
+
+  for (const shape of spec.shapes) {
+    const pixelShape = toPixelShape(shape, spec);
+    const { left, right, top, bottom } = drawArea(pixelShape.bounds, spec);
+
+    for (let y = top; y < bottom; y++) {
+      pixelShape.coverRow(y, left, right, feather, row);
+      for (let x = left; x < right; x++) {
+        const value = Math.round(row[x] * 255);
+        const index = y * width + x;
+        if (value > pixels[index]) pixels[index] = value;
+      }
+    }
+  }
+
+  if (spec.invert) {
+    for (let i = 0; i < pixels.length; i++) pixels[i] = 255 - pixels[i];
+  }
+  return pixels;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Buffer => {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const chunk = Buffer.alloc(body.length + 8);
+  chunk.writeUInt32BE(data.length, 0);
+  body.copy(chunk, 4);
+  chunk.writeUInt32BE(crc32(body), body.length + 4);
+  return chunk;
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Encode 8-bit grayscale pixels as a PNG. */
+export const encodeGrayscalePng = (width: number, height: number, pixels: Uint8Array): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+
+  // Each scanline starts with filter type 0 (none)
+  const raw = Buffer.alloc((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", new Uint8Array()),
+  ]);
+};
+
+/** Render a mask spec to a grayscale PNG. */
+export const buildMask = (spec: MaskSpec): Buffer => encodeGrayscalePng(spec.width, spec.height, renderMask(spec));
+
+/** A mask input as the client expects it: strings pass through, specs become base64 PNG data. */
+export const resolveMaskInput = (mask: string | MaskSpec): string =>
+  typeof mask === "string" ? mask : buildMask(mask).toString("base64");
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertModelParams,
+  describePromptLimits,
+  findModelIssues,
+  isVectorOutput,
+  MAX_PROMPT_LENGTH,
+  RECRAFT_MODELS,
+} from "./models.js";
+
+describe("model capabilities", () => {
+  it("should cover every model", () => {
+    expect(RECRAFT_MODELS).toEqual(["recraftv3", "recraftv4", "recraftv4_vector", "recraftv2", "recraft20b", "refm1"]);
+  });
+
+  it("should derive the longest accepted prompt", () => {
+    expect(MAX_PROMPT_LENGTH).toBe(10000);
+    expect(describePromptLimits()).toBe(
+      "1000 characters for recraftv3, recraftv2, recraft20b, refm1; 10000 for recraftv4, recraftv4_vector",
+    );
+  });
+
+  it("should know which requests produce vector output", () => {
+    expect(isVectorOutput("recraftv4_vector")).toBe(true);
+    expect(isVectorOutput("recraftv3", "icon")).toBe(true);
+    expect(isVectorOutput(undefined, "realistic_image")).toBe(false);
+  });
+});
+
+describe("findModelIssues", () => {
+  it("should accept valid requests", () => {
+    expect(findModelIssues({ prompt: "a cat", style: "digital_illustration", substyle: "pixel_art" })).toEqual([]);
+    expect(findModelIssues({ model: "recraftv4", prompt: "x".repeat(5000) })).toEqual([]);
+  });
+
+  it("should reject styles on models without style support", () => {
+    expect(findModelIssues({ model: "recraftv4", style: "realistic_image" })).toEqual([
+      "recraftv4 does not accept a style; describe the style in the prompt instead.",
+    ]);
+  });
+
+  it("should reject styles a model does not offer", () => {
+    expect(findModelIssues({ model: "recraftv2", style: "logo_raster" })[0]).toContain("does not support style logo_raster");
+  });
+
+  it("should reject style_id combined with style", () => {
+    expect(findModelIssues({ style: "icon", style_id: "abc" })).toContain(
+      "style_id cannot be combined with style or substyle.",
+    );
+  });
+
+  it("should reject prompts over the model's limit", () => {
+    expect(findModelIssues({ model: "recraftv3", prompt: "x".repeat(1001) })).toEqual([
+      "Prompt is 1001 characters; recraftv3 accepts at most 1000.",
+    ]);
+  });
+
+  it("should reject substyles outside the style", () => {
+    expect(findModelIssues({ model: "recraftv2", style: "icon", substyle: "kawaii" })[0]).toContain(
+      "Substyle kawaii does not belong to icon on recraftv2",
+    );
+  });
+
+  it("should reject unsupported controls and text layout", () => {
+    expect(findModelIssues({
+      model: "recraftv4",
+      controls: { artistic_level: 2, no_text: undefined },
+      text_layout: [{}],
+    })).toEqual([
+      "recraftv4 does not support the artistic_level control.",
+      "recraftv4 does not support text_layout.",
+    ]);
+  });
+});
+
+describe("assertModelParams", () => {
+  it("should throw with every issue and a pointer to list_models", () => {
+    expect(() => assertModelParams({ model: "recraftv4_vector", style: "icon", style_id: "abc" })).toThrow(
+      /Invalid parameters for recraftv4_vector: .*style_id cannot be combined.*does not accept a style.*list_models/,
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { findSubstyleIssue } from "./substyles.js";
+import type { Controls, ImageSize, ImageStyle, RecraftModel } from "./types.js";
+
+export type ControlName = keyof Controls;
+
+export interface ModelCapabilities {
+  model: RecraftModel;
+  description: string;
+  /** Styles accepted by the `style` parameter; empty when the model takes none. */
+  styles: readonly ImageStyle[];
+  /** Whether custom styles (`style_id`) can be used. */
+  customStyles: boolean;
+  sizes: readonly ImageSize[];
+  maxPromptLength: number;
+  /** `vector` models always return SVG; `raster` models do unless a vector style is chosen. */
+  output: "raster" | "vector";
+  controls: readonly ControlName[];
+  /** Whether `text_layout` placements are accepted. */
+  textLayout: boolean;
+}
+
+export const IMAGE_STYLES = [
+  "realistic_image",
+  "digital_illustration",
+  "vector_illustration",
+  "icon",
+  "logo_raster",
+] as const satisfies readonly ImageStyle[];
+
+export const IMAGE_SIZES = [
+  "1024x1024",
+  "1365x1024",
+  "1024x1365",
+  "1536x1024",
+  "1024x1536",
+  "1820x1024",
+  "1024x1820",
+  "1024x2048",
+  "2048x1024",
+  "1434x1024",
+  "1024x1434",
+  "1024x1280",
+  "1280x1024",
+  "1024x1707",
+  "1707x1024",
+] as const satisfies readonly ImageSize[];
+
+// Styles whose output is SVG on models that accept them
+const VECTOR_STYLES: readonly ImageStyle[] = ["vector_illustration", "icon"];
+
+const ALL_CONTROLS: readonly ControlName[] = ["artistic_level", "colors", "background_color", "no_text"];
+
+export const DEFAULT_MODEL: RecraftModel = "recraftv3";
+
+export const MODEL_CAPABILITIES: Record<RecraftModel, ModelCapabilities> = {
+  recraftv3: {
+    model: "recraftv3",
+    description: "Recraft V3 (default). All styles, custom styles and text layout.",
+    styles: IMAGE_STYLES,
+    customStyles: true,
+    sizes: IMAGE_SIZES,
+    maxPromptLength: 1000,
+    output: "raster",
+    controls: ALL_CONTROLS,
+    textLayout: true,
+  },
+  recraftv4: {
+    model: "recraftv4",
+    description: "Recraft V4, latest raster model. Style comes from the prompt; no style parameters.",
+    styles: [],
+    customStyles: false,
+    sizes: IMAGE_SIZES,
+    maxPromptLength: 10000,
+    output: "raster",
+    controls: ["colors", "background_color", "no_text"],
+    textLayout: false,
+  },
+  recraftv4_vector: {
+    model: "recraftv4_vector",
+    description: "Recraft V4 Vector, always returns SVG. Style comes from the prompt; no style parameters.",
+    styles: [],
+    customStyles: false,
+    sizes: IMAGE_SIZES,
+    maxPromptLength: 10000,
+    output: "vector",
+    controls: ["colors", "background_color", "no_text"],
+    textLayout: false,
+  },
+  recraftv2: {
+    model: "recraftv2",
+    description: "Recraft V2.",
+    styles: ["realistic_image", "digital_illustration", "vector_illustration", "icon"],
+    customStyles: true,
+    sizes: IMAGE_SIZES,
+    maxPromptLength: 1000,
+    output: "raster",
+    controls: ["colors", "background_color", "no_text"],
+    textLayout: false,
+  },
+  recraft20b: {
+    model: "recraft20b",
+    description: "Recraft 20B (legacy).",
+    styles: ["realistic_image", "digital_illustration", "vector_illustration", "icon"],
+    customStyles: true,
+    sizes: IMAGE_SIZES,
+    maxPromptLength: 1000,
+    output: "raster",
+    controls: ["colors", "background_color", "no_text"],
+    textLayout: false,
+  },
+  refm1: {
+    model: "refm1",
+    description: "RefM1.",
+    styles: IMAGE_STYLES,
+    customStyles: true,
+    sizes: IMAGE_SIZES,
+    maxPromptLength: 1000,
+    output: "raster",
+    controls: ALL_CONTROLS,
+    textLayout: false,
+  },
+};
+
+export const RECRAFT_MODELS = Object.keys(MODEL_CAPABILITIES) as [RecraftModel, ...RecraftModel[]];
+
+export const MAX_PROMPT_LENGTH = Math.max(...RECRAFT_MODELS.map((m) => MODEL_CAPABILITIES[m].maxPromptLength));
+
+/** Prompt limits grouped by length, e.g. "1000 characters for recraftv3, recraftv2; 10000 for recraftv4". */
+export const describePromptLimits = (): string => {
+  const byLength = new Map<number, RecraftModel[]>();
+  for (const model of RECRAFT_MODELS) {
+    const length = MODEL_CAPABILITIES[model].maxPromptLength;
+    byLength.set(length, [...(byLength.get(length) ?? []), model]);
+  }
+  return [...byLength.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([length, models], i) => `${length}${i === 0 ? " characters" : ""} for ${models.join(", ")}`)
+    .join("; ");
+};
+
+export const getModelCapabilities = (model: RecraftModel = DEFAULT_MODEL): ModelCapabilities =>
+  MODEL_CAPABILITIES[model];
+
+export const isVectorOutput = (model: RecraftModel = DEFAULT_MODEL, style?: ImageStyle): boolean =>
+  MODEL_CAPABILITIES[model].output === "vector" || (style !== undefined && VECTOR_STYLES.includes(style));
+
+export interface ModelParams {
+  model?: RecraftModel;
+  prompt?: string;
+  style?: ImageStyle;
+  substyle?: string;
+  style_id?: string;
+  size?: ImageSize;
+  controls?: Controls;
+  text_layout?: unknown[];
+}
+
+/** Every way `params` breaks the chosen model's rules; empty when the request is valid. */
+export const findModelIssues = (params: ModelParams): string[] => {
+  const caps = getModelCapabilities(params.model);
+  const { model } = caps;
+  const issues: string[] = [];
+
+  if (params.style_id !== undefined && (params.style !== undefined || params.substyle !== undefined)) {
+    issues.push("style_id cannot be combined with style or substyle.");
+  }
+  if (params.substyle !== undefined && params.style === undefined && params.style_id === undefined) {
+    issues.push("substyle requires style.");
+  }
+  if (params.style !== undefined && !caps.styles.includes(params.style)) {
+    issues.push(caps.styles.length === 0
+      ? `${model} does not accept a style; describe the style in the prompt instead.`
+      : `${model} does not support style ${params.style}. Supported: ${caps.styles.join(", ")}.`);
+  }
+  if (params.substyle !== undefined && caps.styles.length > 0) {
+    const issue = findSubstyleIssue(model, params.style, params.substyle);
+    if (issue) issues.push(issue);
+  }
+  if (params.style_id !== undefined && !caps.customStyles) {
+    issues.push(`${model} does not support custom styles (style_id).`);
+  }
+  if (params.prompt !== undefined && params.prompt.length > caps.maxPromptLength) {
+    issues.push(`Prompt is ${params.prompt.length} characters; ${model} accepts at most ${caps.maxPromptLength}.`);
+  }
+  if (params.size !== undefined && !caps.sizes.includes(params.size)) {
+    issues.push(`${model} does not support size ${params.size}.`);
+  }
+  for (const control of Object.keys(params.controls ?? {}) as ControlName[]) {
+    if (params.controls?.[control] !== undefined && !caps.controls.includes(control)) {
+      issues.push(`${model} does not support the ${control} control.`);
+    }
+  }
+  if (params.text_layout !== undefined && params.text_layout.length > 0 && !caps.textLayout) {
+    issues.push(`${model} does not support text_layout.`);
+  }
+
+  return issues;
+};
+
+/** Throw before any request is sent if `params` breaks the chosen model's rules. */
+export const assertModelParams = (params: ModelParams): void => {
+  const issues = findModelIssues(params);
+  if (issues.length > 0) {
+    throw new Error(`Invalid parameters for ${getModelCapabilities(params.model).model}: ${issues.join(" ")} Use list_models to see what each model supports.`);
+  }
+};
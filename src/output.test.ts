@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, readFile, rm, symlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { extensionFor, resolveOutputDir, saveImages } from "./output.js";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe("resolveOutputDir", () => {
+  it("should return undefined when nothing is configured", () => {
+    expect(resolveOutputDir(undefined, undefined)).toBeUndefined();
+  });
+
+  it("should fall back to the default directory", () => {
+    expect(resolveOutputDir(undefined, "/srv/out")).toBe("/srv/out");
+  });
+
+  it("should resolve a relative save_to against the default directory", () => {
+    expect(resolveOutputDir("logos", "/srv/out")).toBe("/srv/out/logos");
+    expect(resolveOutputDir("/srv/out/logos", "/srv/out")).toBe("/srv/out/logos");
+  });
+
+  it("should refuse a save_to outside the default directory", () => {
+    expect(() => resolveOutputDir("/tmp/here", "/srv/out")).toThrow("inside RECRAFT_OUTPUT_DIR");
+    expect(() => resolveOutputDir("../elsewhere", "/srv/out")).toThrow("inside RECRAFT_OUTPUT_DIR");
+  });
+
+  it("should refuse save_to without a default directory", () => {
+    expect(() => resolveOutputDir("logos")).toThrow("save_to needs RECRAFT_OUTPUT_DIR");
+  });
+});
+
+describe("extensionFor", () => {
+  it("should detect SVG regardless of the requested format", () => {
+    expect(extensionFor(new TextEncoder().encode("<svg xmlns='x'></svg>"), "png")).toBe("svg");
+    expect(extensionFor(new TextEncoder().encode("<?xml version='1.0'?><svg></svg>"))).toBe("svg");
+  });
+
+  it("should use the requested image format", () => {
+    expect(extensionFor(PNG_BYTES, "webp")).toBe("webp");
+  });
+
+  it("should sniff PNG and default to webp", () => {
+    expect(extensionFor(PNG_BYTES)).toBe("png");
+    expect(extensionFor(new Uint8Array([0x52, 0x49, 0x46, 0x46]))).toBe("webp");
+  });
+});
+
+describe("saveImages", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "recraft-output-"));
+    vi.stubGlobal("fetch", vi.fn());
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should download URLs into deterministic filenames", async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(PNG_BYTES));
+
+    const saved = await saveImages(
+      [{ image_id: "abc", url: "https://img.test/abc" }],
+      { dir: join(dir, "nested"), tool: "generate_image" },
+    );
+
+    const expected = join(dir, "nested", "abc-generate_image.png");
+    expect(saved).toEqual([{ image_id: "abc", path: expected }]);
+    expect(new Uint8Array(await readFile(expected))).toEqual(PNG_BYTES);
+  });
+
+  it("should decode base64 results without fetching", async () => {
+    const saved = await saveImages(
+      [{ image_id: "b64", b64_json: Buffer.from("<svg></svg>").toString("base64") }],
+      { dir, tool: "vectorize_image" },
+    );
+
+    expect(saved[0].path).toBe(join(dir, "b64-vectorize_image.svg"));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should report per-image failures instead of throwing", async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response("gone", { status: 410, statusText: "Gone" }));
+
+    const saved = await saveImages(
+      [{ image_id: "x", url: "https://img.test/x" }],
+      { dir, tool: "generate_image", imageFormat: "webp" },
+    );
+
+    expect(saved).toEqual([{ image_id: "x", error: "Failed to download image: 410 Gone" }]);
+  });
+
+  it("should not follow a symlink out of the output root", async () => {
+    const outside = await mkdtemp(join(tmpdir(), "recraft-outside-"));
+    try {
+      await symlink(outside, join(dir, "link"));
+      const saved = await saveImages(
+        [{ image_id: "x", b64_json: Buffer.from(PNG_BYTES).toString("base64") }],
+        { dir: join(dir, "link", "nested"), root: dir, tool: "generate_image" },
+      );
+
+      expect(saved[0].error).toContain("resolves outside RECRAFT_OUTPUT_DIR");
+      expect(await readdir(outside)).toEqual([]);
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+});
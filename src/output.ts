@@ -0,0 +1,115 @@
+import { access, mkdir, realpath, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { detectImageType } from "./image-format.js";
+import { isWithin } from "./image-input.js";
+import type { ImageFormat } from "./types.js";
+
+export interface OutputImage {
+  image_id: string;
+  url?: string;
+  b64_json?: string;
+}
+
+export interface SavedImage {
+  image_id: string;
+  path?: string;
+  error?: string;
+}
+
+export interface SaveOptions {
+  dir: string;
+  /** Directory `dir` must stay inside once symlinks are resolved. */
+  root?: string;
+  tool: string;
+  imageFormat?: ImageFormat;
+}
+
+export type ImageLoader = (image: OutputImage) => Promise<Uint8Array>;
+
+export const extensionFor = (bytes: Uint8Array, imageFormat?: ImageFormat): string => {
+  const detected = detectImageType(bytes)?.extension;
+  // Vector outputs are SVG regardless of the requested raster format
+  if (detected === "svg") return "svg";
+  return imageFormat ?? detected ?? "webp";
+};
+
+/**
+ * Resolve where a tool call should save its outputs. A per-call `save_to`
+ * wins over the configured default but must name a directory inside it, so
+ * it is refused when no output directory is configured. Returns undefined
+ * when saving is off.
+ */
+export const resolveOutputDir = (saveTo?: string, defaultDir?: string): string | undefined => {
+  if (!saveTo) return defaultDir ? resolve(defaultDir) : undefined;
+  if (!defaultDir) {
+    throw new Error("save_to needs RECRAFT_OUTPUT_DIR to be set; images are only saved inside that directory.");
+  }
+
+  const root = resolve(defaultDir);
+  const dir = resolve(root, saveTo);
+  if (!isWithin(root, dir)) {
+    throw new Error(`save_to must be a directory inside RECRAFT_OUTPUT_DIR (${root}), not ${saveTo}`);
+  }
+  return dir;
+};
+
+// Resolve symlinks on both sides so a link inside the output directory cannot escape it
+const ensureOutputDir = async (dir: string, root?: string): Promise<void> => {
+  if (!root) {
+    await mkdir(dir, { recursive: true });
+    return;
+  }
+
+  await mkdir(root, { recursive: true });
+  const realRoot = await realpath(root);
+  const assertInside = async (path: string): Promise<void> => {
+    if (!isWithin(realRoot, await realpath(path))) {
+      throw new Error(`Output directory ${dir} resolves outside RECRAFT_OUTPUT_DIR (${root})`);
+    }
+  };
+
+  // Check the nearest existing ancestor before creating anything under it
+  let existing = dir;
+  while (!(await access(existing).then(() => true, () => false))) existing = dirname(existing);
+  await assertInside(existing);
+  await mkdir(dir, { recursive: true });
+  await assertInside(dir);
+};
+
+export const downloadImage = async (image: OutputImage, signal?: AbortSignal): Promise<Uint8Array> => {
+  if (image.b64_json) return new Uint8Array(Buffer.from(image.b64_json, "base64"));
+  if (!image.url) throw new Error("Image has neither a URL nor base64 data");
+
+  const response = await fetch(image.url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download image: ${response.status} ${response.statusText}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+export const saveImages = async (
+  images: OutputImage[],
+  options: SaveOptions,
+  load: ImageLoader = downloadImage,
+): Promise<SavedImage[]> => {
+  try {
+    await ensureOutputDir(options.dir, options.root);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return images.map((image) => ({ image_id: image.image_id, error: message }));
+  }
+
+  return Promise.all(images.map(async (image): Promise<SavedImage> => {
+    try {
+      const bytes = await load(image);
+      const path = join(options.dir, `${image.image_id}-${options.tool}.${extensionFor(bytes, options.imageFormat)}`);
+      await writeFile(path, bytes);
+      return { image_id: image.image_id, path };
+    } catch (error) {
+      return { image_id: image.image_id, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+};
+
+export const formatSavedImages = (saved: SavedImage[]): string[] =>
+  saved.map((s) => s.path ? `  Saved: ${s.path}` : `  Save failed for ${s.image_id}: ${s.error}`);
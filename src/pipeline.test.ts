@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { RecraftClient } from "./recraft-client.js";
+import { runPipeline } from "./pipeline.js";
+import { generationResponse, jsonResponse, processResponse, testClient } from "./test-utils.js";
+
+const imageResponse = () => new Response(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+
+describe("runPipeline", () => {
+  let client: RecraftClient;
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => {
+      if (url.startsWith("https://img.test/")) return imageResponse();
+      if (url.endsWith("/images/generations")) {
+        return generationResponse("gen");
+      }
+      if (url.endsWith("/images/removeBackground")) {
+        return processResponse("nobg", 10);
+      }
+      return jsonResponse({ code: "bad", message: "Vectorize failed" }, 400);
+    }));
+    client = testClient();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should feed each step's output into the next and total the credits", async () => {
+    const result = await runPipeline(client, [
+      { tool: "generate_image", params: { prompt: "a fox" } },
+      { tool: "remove_background", params: {} },
+    ]);
+
+    expect(result.failure).toBeUndefined();
+    expect(result.credits).toBe(50);
+    expect(result.steps).toEqual([
+      { step: 1, tool: "generate_image", image_id: "gen", url: "https://img.test/gen", credits: 40 },
+      { step: 2, tool: "remove_background", image_id: "nobg", url: "https://img.test/nobg", credits: 10 },
+    ]);
+
+    const calls = vi.mocked(fetch).mock.calls.map(([url]) => url);
+    expect(calls).toEqual([
+      "https://api.test.com/v1/images/generations",
+      "https://img.test/gen",
+      "https://api.test.com/v1/images/removeBackground",
+    ]);
+    expect(JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string).n).toBe(1);
+  });
+
+  it("should stop at a failing step and keep the completed ones", async () => {
+    const result = await runPipeline(client, [
+      { tool: "generate_image", params: { prompt: "a fox" } },
+      { tool: "vectorize_image", params: {} },
+      { tool: "crisp_upscale", params: {} },
+    ]);
+
+    expect(result.steps.map((step) => step.tool)).toEqual(["generate_image"]);
+    expect(result.images).toEqual([{ image_id: "gen", url: "https://img.test/gen" }]);
+    expect(result.credits).toBe(40);
+    expect(result.failure).toMatchObject({ step: 2, tool: "vectorize_image" });
+    expect(fetch).not.toHaveBeenCalledWith("https://api.test.com/v1/images/crispUpscale", expect.anything());
+  });
+
+  it("should report each step and stop when aborted", async () => {
+    const controller = new AbortController();
+    const onStep = vi.fn(() => controller.abort());
+
+    const result = await runPipeline(client, [
+      { tool: "generate_image", params: { prompt: "a fox" } },
+      { tool: "remove_background", params: {} },
+    ], { signal: controller.signal, onStep });
+
+    expect(onStep).toHaveBeenCalledWith(0, "generate_image");
+    expect(result.steps).toEqual([]);
+    expect(result.failure?.step).toBe(1);
+  });
+});
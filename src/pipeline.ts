@@ -0,0 +1,156 @@
+import type { CostedTool } from "./cost.js";
+import type { OutputImage } from "./output.js";
+import type { CallOptions } from "./progress.js";
+import type { RecraftClient } from "./recraft-client.js";
+import type {
+  EraseRegionParams,
+  GenerateBackgroundParams,
+  GenerateImageParams,
+  GenerateImageResponse,
+  ImageToImageParams,
+  InpaintParams,
+  ProcessImageParams,
+  ProcessImageResponse,
+  ReplaceBackgroundParams,
+} from "./types.js";
+
+export const MAX_PIPELINE_STEPS = 10;
+
+/** Client parameters of each tool a pipeline can run. */
+export interface PipelineToolParams {
+  generate_image: GenerateImageParams;
+  image_to_image: ImageToImageParams;
+  inpaint_image: InpaintParams;
+  replace_background: ReplaceBackgroundParams;
+  generate_background: GenerateBackgroundParams;
+  remove_background: ProcessImageParams;
+  erase_region: EraseRegionParams;
+  vectorize_image: ProcessImageParams;
+  crisp_upscale: ProcessImageParams;
+  creative_upscale: ProcessImageParams;
+}
+
+/** Client parameters for a step; `image` is filled in from the previous step after the first. */
+export type PipelineStepParams<T extends CostedTool> = Omit<PipelineToolParams[T], "image"> & { image?: string };
+
+export type PipelineStep = { [T in CostedTool]: { tool: T; params: PipelineStepParams<T> } }[CostedTool];
+
+export interface PipelineStepResult {
+  step: number;
+  tool: CostedTool;
+  image_id: string;
+  url?: string;
+  credits: number;
+}
+
+export interface PipelineFailure {
+  step: number;
+  tool: CostedTool;
+  error: unknown;
+}
+
+export interface PipelineResult {
+  steps: PipelineStepResult[];
+  /** Output of every completed step, in order. */
+  images: OutputImage[];
+  credits: number;
+  /** The step that failed; steps after it were not run. */
+  failure?: PipelineFailure;
+}
+
+export interface PipelineOptions {
+  signal?: AbortSignal;
+  /** Told before each step starts, with its zero-based index. */
+  onStep?: (index: number, tool: CostedTool) => void;
+}
+
+interface StepOutput {
+  credits: number;
+  image: OutputImage;
+}
+
+type StepRunners = {
+  [T in CostedTool]: (
+    client: RecraftClient,
+    params: PipelineStepParams<T>,
+    image: string | undefined,
+    call: CallOptions,
+  ) => Promise<StepOutput>;
+};
+
+const generated = ({ credits, data }: GenerateImageResponse): StepOutput => ({ credits, image: data[0] });
+const processed = ({ credits, image }: ProcessImageResponse): StepOutput => ({ credits, image });
+
+// The previous step's output, or the image the first step was given
+const sourceImage = (params: { image?: string }, previous: string | undefined): string => {
+  const image = previous ?? params.image;
+  if (image === undefined) throw new Error("This step needs an image.");
+  return image;
+};
+
+// Pipelines chain one image through every step, so generations ask for exactly one
+const STEP_RUNNERS: StepRunners = {
+  generate_image: async (client, params, _image, call) => generated(await client.generateImage({ ...params, n: 1 }, call)),
+  image_to_image: async (client, params, image, call) =>
+    generated(await client.imageToImage({ ...params, n: 1, image: sourceImage(params, image) }, call)),
+  inpaint_image: async (client, params, image, call) =>
+    generated(await client.inpaint({ ...params, n: 1, image: sourceImage(params, image) }, call)),
+  replace_background: async (client, params, image, call) =>
+    generated(await client.replaceBackground({ ...params, n: 1, image: sourceImage(params, image) }, call)),
+  generate_background: async (client, params, image, call) =>
+    generated(await client.generateBackground({ ...params, n: 1, image: sourceImage(params, image) }, call)),
+  remove_background: async (client, params, image, call) =>
+    processed(await client.removeBackground({ ...params, image: sourceImage(params, image) }, call)),
+  erase_region: async (client, params, image, call) =>
+    processed(await client.eraseRegion({ ...params, image: sourceImage(params, image) }, call)),
+  vectorize_image: async (client, params, image, call) =>
+    processed(await client.vectorize({ ...params, image: sourceImage(params, image) }, call)),
+  crisp_upscale: async (client, params, image, call) =>
+    processed(await client.crispUpscale({ ...params, image: sourceImage(params, image) }, call)),
+  creative_upscale: async (client, params, image, call) =>
+    processed(await client.creativeUpscale({ ...params, image: sourceImage(params, image) }, call)),
+};
+
+const runStep = <T extends CostedTool>(
+  client: RecraftClient,
+  step: { tool: T; params: PipelineStepParams<T> },
+  image: string | undefined,
+  call: CallOptions,
+): Promise<StepOutput> => STEP_RUNNERS[step.tool](client, step.params, image, call);
+
+// The client records every result, so the next step can reference it instead of resending it
+const imageInput = (image: OutputImage): string => `image_id:${image.image_id}`;
+
+/**
+ * Run steps in order, feeding each step's output image into the next. Stops
+ * at the first failing step and returns what completed before it; a step's
+ * error never throws out of here.
+ */
+export const runPipeline = async (
+  client: RecraftClient,
+  steps: PipelineStep[],
+  options: PipelineOptions = {},
+): Promise<PipelineResult> => {
+  const result: PipelineResult = { steps: [], images: [], credits: 0 };
+  let previous: OutputImage | undefined;
+
+  for (const [index, step] of steps.entries()) {
+    try {
+      options.signal?.throwIfAborted();
+      options.onStep?.(index, step.tool);
+
+      const input = previous ? imageInput(previous) : undefined;
+      const { credits, image } = await runStep(client, step, input, { signal: options.signal });
+
+      result.steps.push({ step: index + 1, tool: step.tool, image_id: image.image_id, url: image.url, credits });
+      result.images.push(image);
+      result.credits += credits;
+      previous = image;
+    } catch (error) {
+      result.failure = { step: index + 1, tool: step.tool, error };
+      break;
+    }
+  }
+
+  return result;
+};
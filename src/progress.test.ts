@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from "vitest";
+import { toCallOptions, type ToolExtra } from "./progress.js";
+
+const createExtra = (meta?: ToolExtra["_meta"]) => ({
+  signal: new AbortController().signal,
+  requestId: 1,
+  sendNotification: vi.fn(async () => {}),
+  sendRequest: vi.fn(),
+  ...(meta ? { _meta: meta } : {}),
+}) as unknown as ToolExtra;
+
+describe("toCallOptions", () => {
+  it("should pass the request's abort signal through", () => {
+    const extra = createExtra();
+    expect(toCallOptions(extra).signal).toBe(extra.signal);
+  });
+
+  it("should not report progress without a progress token", () => {
+    expect(toCallOptions(createExtra()).onProgress).toBeUndefined();
+  });
+
+  it("should send progress notifications for each phase", () => {
+    const extra = createExtra({ progressToken: "tok" });
+    const { onProgress } = toCallOptions(extra);
+
+    onProgress?.("upload", "Uploading image");
+    onProgress?.("waiting", "Waiting for Recraft");
+    onProgress?.("download", "Downloading 1 image(s)");
+
+    expect(vi.mocked(extra.sendNotification).mock.calls.map(([n]) => n)).toEqual([
+      { method: "notifications/progress", params: { progressToken: "tok", progress: 0, total: 3, message: "Uploading image" } },
+      { method: "notifications/progress", params: { progressToken: "tok", progress: 1, total: 3, message: "Waiting for Recraft" } },
+      { method: "notifications/progress", params: { progressToken: "tok", progress: 2, total: 3, message: "Downloading 1 image(s)" } },
+    ]);
+  });
+
+  it("should ignore failures to send progress", async () => {
+    const extra = createExtra({ progressToken: 7 });
+    vi.mocked(extra.sendNotification).mockRejectedValue(new Error("closed"));
+
+    expect(() => toCallOptions(extra).onProgress?.("waiting", "Waiting")).not.toThrow();
+    await new Promise((resolve) => setImmediate(resolve));
+  });
+});
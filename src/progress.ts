@@ -0,0 +1,53 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export type CallPhase = "upload" | "waiting" | "download";
+
+/** Per-call controls threaded from a tool handler down to every fetch. */
+export interface CallOptions {
+  /** Stops the call: in-flight requests, retry sleeps and rate-limit waits. */
+  signal?: AbortSignal;
+  /** Told when the call enters each phase. */
+  onProgress?: (phase: CallPhase, message: string) => void;
+}
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+const PHASE_PROGRESS: Record<CallPhase, number> = { upload: 0, waiting: 1, download: 2 };
+const PHASE_TOTAL = 3;
+
+/**
+ * Send `notifications/progress` for this request, or undefined when the
+ * client did not ask for progress.
+ */
+export const progressReporter = (
+  extra: ToolExtra,
+): ((progress: number, total: number, message: string) => void) | undefined => {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+
+  return (progress, total, message) => {
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      })
+      .catch(() => {
+        // Progress is best-effort; a closed transport must not fail the call
+      });
+  };
+};
+
+/**
+ * Build call options from a tool handler's `extra`: its abort signal, and
+ * `notifications/progress` when the client sent a progress token.
+ */
+export const toCallOptions = (extra: ToolExtra): CallOptions => {
+  const report = progressReporter(extra);
+  if (!report) return { signal: extra.signal };
+
+  return {
+    signal: extra.signal,
+    onProgress: (phase, message) => report(PHASE_PROGRESS[phase], PHASE_TOTAL, message),
+  };
+};
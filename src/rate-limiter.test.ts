@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RateLimiter } from "./rate-limiter.js";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should default to Recraft's published limits", () => {
+    expect(new RateLimiter().limits).toEqual({ requestsPerSecond: 5, imagesPerMinute: 100 });
+    expect(new RateLimiter({ requestsPerSecond: undefined }).limits.requestsPerSecond).toBe(5);
+  });
+
+  it("should let a burst up to the request limit through immediately", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2 });
+
+    await expect(limiter.acquire()).resolves.toBe(0);
+    await expect(limiter.acquire()).resolves.toBe(0);
+    expect(limiter.status().requests_available).toBe(0);
+  });
+
+  it("should queue requests beyond the request limit", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2 });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const third = limiter.acquire();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.status().queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(third).resolves.toBe(500);
+
+    const status = limiter.status();
+    expect(status.queued).toBe(0);
+    expect(status.delayed_requests).toBe(1);
+    expect(status.last_wait_ms).toBe(500);
+    expect(status.total_wait_ms).toBe(500);
+  });
+
+  it("should count images against the per-minute limit", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, imagesPerMinute: 6 });
+    await limiter.acquire(6);
+    expect(limiter.status().images_available).toBe(0);
+
+    const next = limiter.acquire(3);
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(limiter.status().queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(next).resolves.toBe(30_000);
+  });
+
+  it("should serve waiting callers in arrival order", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, imagesPerMinute: 6 });
+    await limiter.acquire(6);
+
+    const order: string[] = [];
+    const large = limiter.acquire(6).then(() => order.push("large"));
+    const small = limiter.acquire(1).then(() => order.push("small"));
+
+    await vi.advanceTimersByTimeAsync(70_000);
+    await Promise.all([large, small]);
+    expect(order).toEqual(["large", "small"]);
+  });
+
+  it("should not limit when both limits are disabled", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, imagesPerMinute: 0 });
+    const waits = await Promise.all(Array.from({ length: 20 }, () => limiter.acquire(6)));
+
+    expect(waits.every((w) => w === 0)).toBe(true);
+    expect(limiter.status().requests_available).toBeUndefined();
+  });
+
+  it("should stop waiting and take no slots when aborted", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const cancelled = limiter.acquire(0, controller.signal);
+    const next = limiter.acquire();
+
+    controller.abort(new Error("cancelled"));
+    await expect(cancelled).rejects.toThrow("cancelled");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(next).resolves.toBe(1000);
+    expect(limiter.status().queued).toBe(0);
+  });
+});
@@ -0,0 +1,138 @@
+import { abortable, sleep } from "./abort.js";
+
+export interface RateLimits {
+  /** Max API requests per second; 0 disables the limit. */
+  requestsPerSecond?: number;
+  /** Max images per minute, counting every image a call asks for; 0 disables the limit. */
+  imagesPerMinute?: number;
+}
+
+export interface RateLimitStatus {
+  limits: Required<RateLimits>;
+  /** Requests currently waiting for a slot. */
+  queued: number;
+  requests_available?: number;
+  images_available?: number;
+  /** Requests that had to wait at all. */
+  delayed_requests: number;
+  last_wait_ms: number;
+  max_wait_ms: number;
+  total_wait_ms: number;
+}
+
+// Recraft's published API limits
+export const DEFAULT_RATE_LIMITS: Required<RateLimits> = {
+  requestsPerSecond: 5,
+  imagesPerMinute: 100,
+};
+
+class TokenBucket {
+  private tokens: number;
+  private updated = Date.now();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerMs: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  /** Milliseconds until `amount` tokens are available (never more than a full bucket). */
+  waitFor(amount: number): number {
+    this.refill();
+    const deficit = Math.min(amount, this.capacity) - this.tokens;
+    return deficit > 0 ? Math.ceil(deficit / this.refillPerMs) : 0;
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.tokens -= Math.min(amount, this.capacity);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updated) * this.refillPerMs);
+    this.updated = now;
+  }
+}
+
+/**
+ * Client-side token buckets that keep calls under Recraft's request and
+ * image rate limits. Callers are served strictly in arrival order, so a
+ * large generation is never starved by a stream of small requests.
+ */
+export class RateLimiter {
+  readonly limits: Required<RateLimits>;
+  private readonly requests?: TokenBucket;
+  private readonly images?: TokenBucket;
+  private tail: Promise<void> = Promise.resolve();
+  private queued = 0;
+  private delayed = 0;
+  private lastWaitMs = 0;
+  private maxWaitMs = 0;
+  private totalWaitMs = 0;
+
+  constructor(limits: RateLimits = {}) {
+    this.limits = {
+      requestsPerSecond: limits.requestsPerSecond ?? DEFAULT_RATE_LIMITS.requestsPerSecond,
+      imagesPerMinute: limits.imagesPerMinute ?? DEFAULT_RATE_LIMITS.imagesPerMinute,
+    };
+    const { requestsPerSecond, imagesPerMinute } = this.limits;
+    if (requestsPerSecond > 0) this.requests = new TokenBucket(requestsPerSecond, requestsPerSecond / 1000);
+    if (imagesPerMinute > 0) this.images = new TokenBucket(imagesPerMinute, imagesPerMinute / 60_000);
+  }
+
+  /**
+   * Wait for a request slot plus `images` image slots. Resolves with the
+   * number of milliseconds spent waiting; rejects if `signal` aborts first,
+   * in which case no slots are taken.
+   */
+  acquire(images = 0, signal?: AbortSignal): Promise<number> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const started = Date.now();
+    this.queued++;
+
+    const turn = this.tail.then(async (): Promise<boolean> => {
+      while (!signal?.aborted) {
+        const waitMs = Math.max(this.requests?.waitFor(1) ?? 0, this.images?.waitFor(images) ?? 0);
+        if (waitMs === 0) {
+          this.requests?.take(1);
+          this.images?.take(images);
+          return true;
+        }
+        await sleep(waitMs, signal).catch(() => undefined);
+      }
+      return false;
+    });
+    this.tail = turn.then(() => undefined);
+
+    return abortable(turn.then((granted) => {
+      this.queued--;
+      if (!granted) throw signal?.reason;
+      const waited = Date.now() - started;
+      this.lastWaitMs = waited;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+      this.totalWaitMs += waited;
+      if (waited > 0) this.delayed++;
+      return waited;
+    }), signal);
+  }
+
+  status(): RateLimitStatus {
+    return {
+      limits: this.limits,
+      queued: this.queued,
+      requests_available: this.requests?.available(),
+      images_available: this.images?.available(),
+      delayed_requests: this.delayed,
+      last_wait_ms: this.lastWaitMs,
+      max_wait_ms: this.maxWaitMs,
+      total_wait_ms: this.totalWaitMs,
+    };
+  }
+}
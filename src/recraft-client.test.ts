@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { RecraftClient, RecraftApiError } from "./recraft-client.js";
+import { RecraftClient, RecraftApiError, RecraftNetworkError, parseRetryAfter } from "./recraft-client.js";
+import { BudgetExceededError, CreditBudget } from "./budget.js";
+import { RateLimiter } from "./rate-limiter.js";
 
 describe("RecraftClient", () => {
   let client: RecraftClient;
@@ -41,6 +43,209 @@ describe("RecraftClient", () => {
       expect(headers.get("Authorization")).toBe("Bearer test-token");
       expect(result).toEqual(mockResponse);
     });
+
+    it("should record returned images in the registry", async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ created: 1, credits: 40, data: [{ image_id: "abc", url: "https://img.test/1.png" }] }),
+      } as Response);
+
+      await client.generateImage({ prompt: "a cat" });
+
+      expect(client.images.get("abc")).toMatchObject({ operation: "generate_image", prompt: "a cat" });
+    });
+  });
+
+  describe("credit budget", () => {
+    it("should charge credits and refuse calls over budget without fetching", async () => {
+      const budgeted = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 }, {
+        budget: new CreditBudget({ session: 40 }),
+      });
+
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ created: 1, credits: 40, data: [{ image_id: "abc" }] }),
+      } as Response);
+
+      await budgeted.generateImage({ prompt: "a cat" });
+      await expect(budgeted.generateImage({ prompt: "a dog" })).rejects.toThrow(BudgetExceededError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect((await budgeted.budget.status()).tools.generate_image.spent).toBe(40);
+    });
+
+    it("should let only as many parallel calls through as the budget covers", async () => {
+      const budgeted = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 }, {
+        budget: new CreditBudget({ session: 40 }),
+      });
+
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ created: 1, credits: 40, data: [{ image_id: "abc" }] }),
+      } as Response);
+
+      const results = await Promise.allSettled([
+        budgeted.generateImage({ prompt: "a cat" }),
+        budgeted.generateImage({ prompt: "a dog" }),
+        budgeted.generateImage({ prompt: "a fox" }),
+      ]);
+
+      expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect((await budgeted.budget.status()).session.spent).toBe(40);
+    });
+
+    it("should release the reservation when the request fails", async () => {
+      const budgeted = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 }, {
+        budget: new CreditBudget({ session: 40 }),
+      });
+
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: "Bad Request",
+        headers: new Headers(),
+        text: async () => "invalid",
+      } as Response);
+      await expect(budgeted.generateImage({ prompt: "a cat" })).rejects.toThrow(RecraftApiError);
+
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ created: 1, credits: 40, data: [{ image_id: "abc" }] }),
+      } as Response);
+      await expect(budgeted.generateImage({ prompt: "a dog" })).resolves.toBeDefined();
+    });
+
+    it("should charge the estimate when a request may have run before it failed", async () => {
+      const budget = new CreditBudget({ session: 100 });
+      const budgeted = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 }, { budget });
+
+      vi.mocked(fetch).mockRejectedValueOnce(new TypeError("fetch failed"));
+      await expect(budgeted.generateImage({ prompt: "a cat" })).rejects.toThrow(RecraftNetworkError);
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        statusText: "Bad Gateway",
+        headers: new Headers(),
+        text: async () => "upstream",
+      } as Response);
+      await expect(budgeted.generateImage({ prompt: "a dog" })).rejects.toThrow(RecraftApiError);
+
+      expect((await budget.status()).session.spent).toBe(80);
+      await expect(budgeted.generateImage({ prompt: "a fox" })).rejects.toThrow("session budget");
+    });
+
+    it("should charge the estimate when the caller aborts mid-request but not before it is sent", async () => {
+      const budget = new CreditBudget();
+      const budgeted = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 }, { budget });
+
+      const early = new AbortController();
+      early.abort();
+      await expect(budgeted.generateImage({ prompt: "a cat" }, { signal: early.signal })).rejects.toThrow();
+      expect(fetch).not.toHaveBeenCalled();
+
+      const late = new AbortController();
+      vi.mocked(fetch).mockImplementationOnce((_url, init) =>
+        new Promise((_, reject) => init?.signal?.addEventListener("abort", () => reject(init.signal?.reason))));
+      const pending = budgeted.generateImage({ prompt: "a dog" }, { signal: late.signal });
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+      late.abort();
+      await expect(pending).rejects.toThrow();
+
+      expect((await budget.status()).session.spent).toBe(40);
+    });
+  });
+
+  describe("model validation", () => {
+    it("should refuse invalid parameter combinations without fetching", async () => {
+      await expect(client.generateImage({ prompt: "a cat", model: "recraftv4", style: "realistic_image" }))
+        .rejects.toThrow("recraftv4 does not accept a style");
+      await expect(client.previewRequest("generate_image", { prompt: "x".repeat(1001) }))
+        .rejects.toThrow("accepts at most 1000");
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("image limits", () => {
+    const pngHeader = (width: number, height: number): string => {
+      const bytes = Buffer.alloc(24);
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]).copy(bytes);
+      bytes.write("IHDR", 12, "ascii");
+      bytes.writeUInt32BE(width, 16);
+      bytes.writeUInt32BE(height, 20);
+      return bytes.toString("base64");
+    };
+
+    it("should refuse images over the endpoint's limits without uploading", async () => {
+      await expect(client.crispUpscale({ image: pngHeader(2500, 2000) }))
+        .rejects.toThrow("crisp_upscale only accepts images under 4 MP");
+      await expect(client.eraseRegion({ image: pngHeader(1024, 1024), mask: pngHeader(512, 512) }))
+        .rejects.toThrow("The mask is 512x512 px, but the image is 1024x1024 px");
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("uploads", () => {
+    it("should label each file with its detected type", async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ credits: 1, image: { image_id: "x" } }),
+      } as Response);
+
+      await client.eraseRegion({
+        image: Buffer.from([0xff, 0xd8, 0xff, 0xe0]).toString("base64"),
+        mask: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString("base64"),
+      });
+
+      const form = vi.mocked(fetch).mock.calls[0][1]?.body as FormData;
+      const image = form.get("image") as File;
+      const mask = form.get("mask") as File;
+      expect([image.name, image.type]).toEqual(["image.jpg", "image/jpeg"]);
+      expect([mask.name, mask.type]).toEqual(["mask.png", "image/png"]);
+    });
+
+    it("should name the parameter that failed to decode", async () => {
+      await expect(client.eraseRegion({ image: "data:image/png;base64,iVBORw0KGgo=", mask: "not base64!" }))
+        .rejects.toThrow("The mask is not valid base64.");
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it("should refuse an HTML page served in place of an image", async () => {
+      vi.mocked(fetch).mockResolvedValue(
+        new Response("<html>Not found</html>", { headers: { "content-type": "text/html" } }),
+      );
+
+      client.images.record("generate_image", [{ image_id: "page", url: "https://img.test/missing.png" }]);
+
+      await expect(client.vectorize({ image: "image_id:page" }))
+        .rejects.toThrow("The image is not a PNG, JPEG, WEBP or SVG image (received text/html)");
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("should count requested images and requests against the limiter", async () => {
+      const limited = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 }, {
+        rateLimiter: new RateLimiter({ requestsPerSecond: 5, imagesPerMinute: 100 }),
+      });
+
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ created: 1, credits: 120, data: [] }),
+      } as Response);
+
+      await limited.generateImage({ prompt: "a cat", n: 3 });
+      await limited.getCurrentUser();
+
+      const status = limited.rateLimiter.status();
+      expect(status.images_available).toBe(97);
+      expect(status.requests_available).toBe(3);
+    });
   });
 
   describe("getCurrentUser", () => {
@@ -114,6 +319,207 @@ describe("RecraftClient", () => {
     });
   });
 
+  describe("transient failures", () => {
+    const jsonResponse = (body: unknown) => ({
+      ok: true,
+      headers: new Headers({ "content-type": "application/json" }),
+      json: async () => body,
+    } as Response);
+
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: "Error",
+      headers: new Headers(headers),
+      text: async () => "",
+    } as Response);
+
+    const retryClient = (retry: ConstructorParameters<typeof RecraftClient>[3]) =>
+      new RecraftClient("test-token", "https://api.test.com/v1", 0, { baseDelayMs: 1, ...retry });
+
+    it("should retry 5xx responses on GET", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(errorResponse(502))
+        .mockResolvedValueOnce(jsonResponse({ id: "u1" }));
+
+      await retryClient({ maxRetries: 2 }).getCurrentUser();
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should retry credit-consuming POSTs only on 503 unless server errors are opted in", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(errorResponse(502))
+        .mockResolvedValueOnce(jsonResponse({ created: 1, credits: 40, data: [] }));
+
+      await expect(retryClient({ maxRetries: 2 }).generateImage({ prompt: "test" })).rejects.toThrow(RecraftApiError);
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      vi.mocked(fetch)
+        .mockReset()
+        .mockResolvedValueOnce(errorResponse(502))
+        .mockResolvedValueOnce(jsonResponse({ created: 1, credits: 40, data: [] }));
+      await retryClient({ maxRetries: 2, post: { retryServerErrors: true } }).generateImage({ prompt: "test" });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry other client errors", async () => {
+      vi.mocked(fetch).mockResolvedValue(errorResponse(400));
+
+      await expect(retryClient({ maxRetries: 2 }).generateImage({ prompt: "test" })).rejects.toThrow(RecraftApiError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry network errors on GET but not on credit-consuming POSTs", async () => {
+      const client = retryClient({ maxRetries: 2 });
+      vi.mocked(fetch)
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(jsonResponse({ id: "u1" }));
+
+      await expect(client.getCurrentUser()).resolves.toEqual({ id: "u1" });
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      vi.mocked(fetch).mockReset().mockRejectedValue(new TypeError("fetch failed"));
+      await expect(client.generateImage({ prompt: "test" })).rejects.toThrow(RecraftNetworkError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should apply per-method policy overrides", async () => {
+      vi.mocked(fetch).mockRejectedValue(new TypeError("fetch failed"));
+
+      await expect(
+        retryClient({ maxRetries: 3, get: { maxRetries: 1 } }).getCurrentUser(),
+      ).rejects.toThrow("Recraft API request failed: fetch failed");
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should abort attempts that exceed the timeout", async () => {
+      vi.mocked(fetch).mockImplementation((_url, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        }));
+
+      const error = await retryClient({ maxRetries: 0, get: { timeoutMs: 20 } }).getCurrentUser().catch((e) => e);
+      expect(error).toBeInstanceOf(RecraftNetworkError);
+      expect((error as RecraftNetworkError).timedOut).toBe(true);
+      expect((error as Error).message).toContain("timed out after 20ms");
+    });
+
+    it("should fail with a network error when reading the reply times out", async () => {
+      const budgeted = new RecraftClient("test-token", "https://api.test.com/v1", 0, {
+        maxRetries: 0,
+        post: { timeoutMs: 20 },
+      }, { budget: new CreditBudget({ session: 100 }) });
+      vi.mocked(fetch).mockImplementation(async (_url, init) => ({
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: () => new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        }),
+      } as Response));
+
+      const error = await budgeted.generateImage({ prompt: "test" }).catch((e) => e);
+      expect(error).toBeInstanceOf(RecraftNetworkError);
+      expect((error as RecraftNetworkError).timedOut).toBe(true);
+      // Recraft answered, so the call ran and its estimate is charged
+      expect((await budgeted.budget.status()).session.spent).toBe(40);
+    });
+
+    it("should wait as long as Retry-After asks, capped at maxDelayMs", async () => {
+      vi.useFakeTimers();
+      try {
+        vi.mocked(fetch)
+          .mockResolvedValueOnce(errorResponse(429, { "retry-after": "120" }))
+          .mockResolvedValueOnce(jsonResponse({ id: "u1" }));
+
+        const pending = retryClient({ maxRetries: 1, maxDelayMs: 5000 }).getCurrentUser();
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(fetch).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(pending).resolves.toEqual({ id: "u1" });
+        expect(fetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("cancellation and progress", () => {
+    it("should pass the caller's signal to fetch and stop retrying once aborted", async () => {
+      vi.useFakeTimers();
+      try {
+        const retryClient = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 3 });
+        vi.mocked(fetch).mockResolvedValue({
+          ok: false,
+          status: 503,
+          statusText: "Service Unavailable",
+          headers: new Headers(),
+          text: async () => "",
+        } as Response);
+
+        const controller = new AbortController();
+        const pending = retryClient.getCurrentUser({ signal: controller.signal });
+        const outcome = pending.catch((error: unknown) => error);
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(fetch).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(fetch).mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+
+        controller.abort(new Error("cancelled"));
+        expect(await outcome).toEqual(new Error("cancelled"));
+
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(fetch).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should not retry a request the caller aborted", async () => {
+      const retryClient = new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 3 });
+      const controller = new AbortController();
+      vi.mocked(fetch).mockImplementation(async () => {
+        controller.abort(new Error("cancelled"));
+        throw new DOMException("aborted", "AbortError");
+      });
+
+      await expect(retryClient.getCurrentUser({ signal: controller.signal })).rejects.toThrow("cancelled");
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report upload and waiting phases", async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ credits: 10, image: { image_id: "x" } }),
+      } as Response);
+
+      const onProgress = vi.fn();
+      await client.removeBackground({ image: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString("base64") }, { onProgress });
+
+      expect(onProgress.mock.calls.map(([phase]) => phase)).toEqual(["upload", "waiting"]);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delay-seconds", () => {
+      expect(parseRetryAfter("3")).toBe(3000);
+    });
+
+    it("should parse HTTP-dates relative to now", () => {
+      const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+      expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:05 GMT", now)).toBe(5000);
+      expect(parseRetryAfter("Wed, 21 Oct 2026 07:27:00 GMT", now)).toBe(0);
+    });
+
+    it("should ignore missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
   describe("style operations", () => {
     it("should list styles", async () => {
       const mockStyles = { styles: [{ id: "s1", style: "realistic_image" }] };
@@ -1,4 +1,19 @@
 import { TtlCache } from "./cache.js";
+import {
+  describeImageInput,
+  fetchImageBlob,
+  type ImageInputOptions,
+  type ImageInputSummary,
+} from "./image-input.js";
+import { ImageRegistry } from "./image-registry.js";
+import { identifyUpload } from "./image-format.js";
+import { checkImageLimits, checkMaskMatchesImage, type CheckedImage } from "./image-limits.js";
+import { CreditBudget } from "./budget.js";
+import { estimateCost, isGenerationTool, type CostedTool } from "./cost.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { assertModelParams } from "./models.js";
+import { sleep } from "./abort.js";
+import type { CallOptions } from "./progress.js";
 import type {
   GenerateImageParams,
   GenerateImageResponse,
@@ -25,48 +40,164 @@ export class RecraftApiError extends Error {
   }
 }
 
+/**
+ * A fetch that never got a response: the connection failed or the attempt
+ * hit its timeout.
+ */
+export class RecraftNetworkError extends Error {
+  constructor(
+    message: string,
+    readonly timedOut: boolean,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+/**
+ * CallOptions for a paid request. `delivery` is set when Recraft may have run
+ * the call even though it failed, so its cost cannot be assumed to be zero.
+ */
+interface PaidCall extends CallOptions {
+  delivery?: { mayHaveRun: boolean };
+}
+
+export interface RetryPolicy {
+  /** Retries after the first attempt. */
+  maxRetries: number;
+  /** Retry 500/502/504 responses. 429 and 503 are always retried. */
+  retryServerErrors: boolean;
+  /** Retry connection failures and timeouts. */
+  retryNetworkErrors: boolean;
+  /** Abort an attempt with no response after this many ms; 0 disables. */
+  timeoutMs: number;
+}
+
 export interface RetryOptions {
+  /** Retries after the first attempt, unless a per-method policy overrides it. */
   maxRetries: number;
+  /** First backoff delay; doubles on every retry, with jitter. */
+  baseDelayMs?: number;
+  /** Longest single wait, including waits requested by Retry-After. */
+  maxDelayMs?: number;
+  /** Policy for idempotent GET and DELETE requests. */
+  get?: Partial<RetryPolicy>;
+  /** Policy for POSTs, which consume credits or create styles. */
+  post?: Partial<RetryPolicy>;
+}
+
+export interface RecraftClientOptions {
+  imageInput?: ImageInputOptions;
+  budget?: CreditBudget;
+  rateLimiter?: RateLimiter;
+}
+
+export interface RequestPreview {
+  method: "POST";
+  path: string;
+  contentType: "application/json" | "multipart/form-data";
+  fields: Record<string, unknown>;
+  files: Record<string, ImageInputSummary>;
 }
 
 const DEFAULT_RETRY: RetryOptions = { maxRetries: 3 };
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+
+// A POST that failed mid-flight may still have been processed and charged. A
+// 500, or a 502/504 from a gateway, can arrive after the generation ran, so by
+// default POSTs are only retried on 429 and 503, which refuse the request up front
+const DEFAULT_GET_POLICY: Omit<RetryPolicy, "maxRetries"> = {
+  retryServerErrors: true,
+  retryNetworkErrors: true,
+  timeoutMs: 30_000,
+};
+const DEFAULT_POST_POLICY: Omit<RetryPolicy, "maxRetries"> = {
+  retryServerErrors: false,
+  retryNetworkErrors: false,
+  timeoutMs: 180_000,
+};
 
-const sleep = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+const REFUSED_STATUSES = new Set([429, 503]);
+const RETRYABLE_SERVER_STATUSES = new Set([500, 502, 504]);
+
+const ENDPOINTS: Record<CostedTool, string> = {
+  generate_image: "/images/generations",
+  image_to_image: "/images/imageToImage",
+  inpaint_image: "/images/inpaint",
+  replace_background: "/images/replaceBackground",
+  generate_background: "/images/generateBackground",
+  remove_background: "/images/removeBackground",
+  erase_region: "/images/eraseRegion",
+  vectorize_image: "/images/vectorize",
+  crisp_upscale: "/images/crispUpscale",
+  creative_upscale: "/images/creativeUpscale",
+};
 
-const isUrl = (value: string): boolean =>
-  value.startsWith("http://") || value.startsWith("https://");
+const FILE_FIELDS = new Set(["image", "mask"]);
+
+const resolvePolicy = (
+  retry: RetryOptions,
+  defaults: Omit<RetryPolicy, "maxRetries">,
+  overrides: Partial<RetryPolicy> = {},
+): RetryPolicy => ({
+  maxRetries: Math.max(0, overrides.maxRetries ?? retry.maxRetries),
+  retryServerErrors: overrides.retryServerErrors ?? defaults.retryServerErrors,
+  retryNetworkErrors: overrides.retryNetworkErrors ?? defaults.retryNetworkErrors,
+  timeoutMs: overrides.timeoutMs ?? defaults.timeoutMs,
+});
+
+/**
+ * Parse a Retry-After header, given either as delay-seconds or as an
+ * HTTP-date, into milliseconds from `now`.
+ */
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10) * 1000;
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
 
-const fetchImageBlob = async (imageInput: string): Promise<Blob> => {
-  if (isUrl(imageInput)) {
-    const response = await fetch(imageInput);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image from URL: ${response.status} ${response.statusText}`);
-    }
-    return response.blob();
+const toNetworkError = (error: unknown, timeoutMs: number): RecraftNetworkError => {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new RecraftNetworkError(`Recraft API request timed out after ${timeoutMs}ms`, true, { cause: error });
   }
-  const raw = atob(imageInput);
-  const bytes = new Uint8Array(raw.length);
-  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
-  return new Blob([bytes]);
+  const message = error instanceof Error ? error.message : String(error);
+  return new RecraftNetworkError(`Recraft API request failed: ${message}`, false, { cause: error });
 };
 
 export class RecraftClient {
   private readonly baseUrl: string;
   private readonly apiToken: string;
   private readonly retry: RetryOptions;
+  private readonly getPolicy: RetryPolicy;
+  private readonly postPolicy: RetryPolicy;
   private readonly cache: TtlCache;
   private readonly cachingEnabled: boolean;
+  private readonly imageInput: ImageInputOptions;
+  readonly images: ImageRegistry;
+  readonly budget: CreditBudget;
+  readonly rateLimiter: RateLimiter;
 
   constructor(
     apiToken: string,
     baseUrl = "https://external.api.recraft.ai/v1",
     cacheTtlMs?: number,
     retry: RetryOptions = DEFAULT_RETRY,
+    options: RecraftClientOptions = {},
   ) {
     this.baseUrl = baseUrl.replace(/\/$/, "");
     this.apiToken = apiToken;
     this.retry = retry;
+    this.getPolicy = resolvePolicy(retry, DEFAULT_GET_POLICY, retry.get);
+    this.postPolicy = resolvePolicy(retry, DEFAULT_POST_POLICY, retry.post);
+    this.images = new ImageRegistry();
+    // image_id references resolve against this client's own results only
+    this.imageInput = { ...options.imageInput, images: this.images };
+    this.budget = options.budget ?? new CreditBudget();
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
     this.cachingEnabled = cacheTtlMs !== 0;
     this.cache = new TtlCache(cacheTtlMs ?? 120_000);
   }
@@ -84,129 +215,251 @@ export class RecraftClient {
 
   // --- Generation ---
 
-  async generateImage(params: GenerateImageParams): Promise<GenerateImageResponse> {
-    return this.jsonRequest<GenerateImageResponse>("/images/generations", { ...params });
+  async generateImage(params: GenerateImageParams, call: CallOptions = {}): Promise<GenerateImageResponse> {
+    assertModelParams(params);
+    const response = await this.paid("generate_image", estimateCost("generate_image", params).credits, call, (call) =>
+      this.jsonRequest<GenerateImageResponse>(ENDPOINTS.generate_image, { ...params }, params.n ?? 1, call));
+    this.images.record("generate_image", response.data, params.prompt);
+    return response;
   }
 
-  async imageToImage(params: ImageToImageParams): Promise<GenerateImageResponse> {
-    const { image, ...rest } = params;
-    const form = await this.buildFormData({ image }, rest);
-    return this.multipartRequest<GenerateImageResponse>("/images/imageToImage", form);
+  async imageToImage(params: ImageToImageParams, call: CallOptions = {}): Promise<GenerateImageResponse> {
+    assertModelParams(params);
+    const response = await this.paid("image_to_image", estimateCost("image_to_image", params).credits, call, async (call) => {
+      const { image, ...rest } = params;
+      const form = await this.buildFormData("image_to_image", { image }, rest, call);
+      return this.multipartRequest<GenerateImageResponse>(ENDPOINTS.image_to_image, form, params.n ?? 1, call);
+    });
+    this.images.record("image_to_image", response.data, params.prompt);
+    return response;
   }
 
-  async inpaint(params: InpaintParams): Promise<GenerateImageResponse> {
-    const { image, mask, ...rest } = params;
-    const form = await this.buildFormData({ image, mask }, rest);
-    return this.multipartRequest<GenerateImageResponse>("/images/inpaint", form);
+  async inpaint(params: InpaintParams, call: CallOptions = {}): Promise<GenerateImageResponse> {
+    assertModelParams(params);
+    const response = await this.paid("inpaint_image", estimateCost("inpaint_image", params).credits, call, async (call) => {
+      const { image, mask, ...rest } = params;
+      const form = await this.buildFormData("inpaint_image", { image, mask }, rest, call);
+      return this.multipartRequest<GenerateImageResponse>(ENDPOINTS.inpaint_image, form, params.n ?? 1, call);
+    });
+    this.images.record("inpaint_image", response.data, params.prompt);
+    return response;
   }
 
-  async replaceBackground(params: ReplaceBackgroundParams): Promise<GenerateImageResponse> {
-    const { image, ...rest } = params;
-    const form = await this.buildFormData({ image }, rest);
-    return this.multipartRequest<GenerateImageResponse>("/images/replaceBackground", form);
+  async replaceBackground(params: ReplaceBackgroundParams, call: CallOptions = {}): Promise<GenerateImageResponse> {
+    assertModelParams(params);
+    const response = await this.paid("replace_background", estimateCost("replace_background", params).credits, call, async (call) => {
+      const { image, ...rest } = params;
+      const form = await this.buildFormData("replace_background", { image }, rest, call);
+      return this.multipartRequest<GenerateImageResponse>(ENDPOINTS.replace_background, form, params.n ?? 1, call);
+    });
+    this.images.record("replace_background", response.data, params.prompt);
+    return response;
   }
 
-  async generateBackground(params: GenerateBackgroundParams): Promise<GenerateImageResponse> {
-    const { image, mask, ...rest } = params;
-    const form = await this.buildFormData({ image, mask }, rest);
-    return this.multipartRequest<GenerateImageResponse>("/images/generateBackground", form);
+  async generateBackground(params: GenerateBackgroundParams, call: CallOptions = {}): Promise<GenerateImageResponse> {
+    assertModelParams(params);
+    const response = await this.paid("generate_background", estimateCost("generate_background", params).credits, call, async (call) => {
+      const { image, mask, ...rest } = params;
+      const form = await this.buildFormData("generate_background", { image, mask }, rest, call);
+      return this.multipartRequest<GenerateImageResponse>(ENDPOINTS.generate_background, form, params.n ?? 1, call);
+    });
+    this.images.record("generate_background", response.data, params.prompt);
+    return response;
   }
 
   // --- Processing ---
 
-  async removeBackground(params: ProcessImageParams): Promise<ProcessImageResponse> {
-    const { image, ...rest } = params;
-    const form = await this.buildFormData({ image }, rest);
-    return this.multipartRequest<ProcessImageResponse>("/images/removeBackground", form);
+  async removeBackground(params: ProcessImageParams, call: CallOptions = {}): Promise<ProcessImageResponse> {
+    const response = await this.paid("remove_background", estimateCost("remove_background").credits, call, async (call) => {
+      const { image, ...rest } = params;
+      const form = await this.buildFormData("remove_background", { image }, rest, call);
+      return this.multipartRequest<ProcessImageResponse>(ENDPOINTS.remove_background, form, 1, call);
+    });
+    this.images.record("remove_background", [response.image]);
+    return response;
   }
 
-  async eraseRegion(params: EraseRegionParams): Promise<ProcessImageResponse> {
-    const { image, mask, ...rest } = params;
-    const form = await this.buildFormData({ image, mask }, rest);
-    return this.multipartRequest<ProcessImageResponse>("/images/eraseRegion", form);
+  async eraseRegion(params: EraseRegionParams, call: CallOptions = {}): Promise<ProcessImageResponse> {
+    const response = await this.paid("erase_region", estimateCost("erase_region").credits, call, async (call) => {
+      const { image, mask, ...rest } = params;
+      const form = await this.buildFormData("erase_region", { image, mask }, rest, call);
+      return this.multipartRequest<ProcessImageResponse>(ENDPOINTS.erase_region, form, 1, call);
+    });
+    this.images.record("erase_region", [response.image]);
+    return response;
   }
 
-  async vectorize(params: ProcessImageParams): Promise<ProcessImageResponse> {
-    const { image, ...rest } = params;
-    const form = await this.buildFormData({ image }, rest);
-    return this.multipartRequest<ProcessImageResponse>("/images/vectorize", form);
+  async vectorize(params: ProcessImageParams, call: CallOptions = {}): Promise<ProcessImageResponse> {
+    const response = await this.paid("vectorize_image", estimateCost("vectorize_image").credits, call, async (call) => {
+      const { image, ...rest } = params;
+      const form = await this.buildFormData("vectorize_image", { image }, rest, call);
+      return this.multipartRequest<ProcessImageResponse>(ENDPOINTS.vectorize_image, form, 1, call);
+    });
+    this.images.record("vectorize_image", [response.image]);
+    return response;
   }
 
-  async crispUpscale(params: ProcessImageParams): Promise<ProcessImageResponse> {
-    const { image, ...rest } = params;
-    const form = await this.buildFormData({ image }, rest);
-    return this.multipartRequest<ProcessImageResponse>("/images/crispUpscale", form);
+  async crispUpscale(params: ProcessImageParams, call: CallOptions = {}): Promise<ProcessImageResponse> {
+    const response = await this.paid("crisp_upscale", estimateCost("crisp_upscale").credits, call, async (call) => {
+      const { image, ...rest } = params;
+      const form = await this.buildFormData("crisp_upscale", { image }, rest, call);
+      return this.multipartRequest<ProcessImageResponse>(ENDPOINTS.crisp_upscale, form, 1, call);
+    });
+    this.images.record("crisp_upscale", [response.image]);
+    return response;
   }
 
-  async creativeUpscale(params: ProcessImageParams): Promise<ProcessImageResponse> {
-    const { image, ...rest } = params;
-    const form = await this.buildFormData({ image }, rest);
-    return this.multipartRequest<ProcessImageResponse>("/images/creativeUpscale", form);
+  async creativeUpscale(params: ProcessImageParams, call: CallOptions = {}): Promise<ProcessImageResponse> {
+    const response = await this.paid("creative_upscale", estimateCost("creative_upscale").credits, call, async (call) => {
+      const { image, ...rest } = params;
+      const form = await this.buildFormData("creative_upscale", { image }, rest, call);
+      return this.multipartRequest<ProcessImageResponse>(ENDPOINTS.creative_upscale, form, 1, call);
+    });
+    this.images.record("creative_upscale", [response.image]);
+    return response;
+  }
+
+  /**
+   * Describe the request a tool call would send, validating image inputs
+   * without uploading them or fetching remote URLs. Used for dry runs.
+   */
+  async previewRequest(tool: CostedTool, params: object): Promise<RequestPreview> {
+    if (isGenerationTool(tool)) assertModelParams(params);
+    const fields: Record<string, unknown> = {};
+    const files: Record<string, ImageInputSummary> = {};
+
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === null) continue;
+      if (FILE_FIELDS.has(key) && typeof value === "string" && tool !== "generate_image") {
+        files[key] = await describeImageInput(value, this.imageInput, key);
+      } else {
+        fields[key] = value;
+      }
+    }
+
+    return {
+      method: "POST",
+      path: ENDPOINTS[tool],
+      contentType: tool === "generate_image" ? "application/json" : "multipart/form-data",
+      fields,
+      files,
+    };
   }
 
   // --- Styles ---
 
-  async createStyle(params: CreateStyleParams): Promise<{ id: string }> {
+  async createStyle(params: CreateStyleParams, call: CallOptions = {}): Promise<{ id: string }> {
+    call.onProgress?.("upload", `Uploading ${params.images.length} reference image(s)`);
     const form = new FormData();
     for (const imageInput of params.images) {
-      const blob = await fetchImageBlob(imageInput);
-      form.append("images", blob, "image.png");
+      const upload = await this.loadUpload("style image", imageInput, "create_style", call.signal);
+      form.append("images", upload.blob, `image.${upload.extension}`);
     }
     form.append("style", params.style);
-    return this.multipartRequest<{ id: string }>("/styles", form);
+    return this.multipartRequest<{ id: string }>("/styles", form, 0, call);
   }
 
-  async getStyle(styleId: string): Promise<StyleResponse> {
+  async getStyle(styleId: string, call: CallOptions = {}): Promise<StyleResponse> {
     return this.cachedRequest(
       `style:${styleId}`,
       300_000,
-      () => this.request<StyleResponse>(`/styles/${encodeURIComponent(styleId)}`),
+      () => this.request<StyleResponse>(`/styles/${encodeURIComponent(styleId)}`, undefined, 0, call),
     );
   }
 
-  async listStyles(): Promise<StyleListResponse> {
+  async listStyles(call: CallOptions = {}): Promise<StyleListResponse> {
     return this.cachedRequest(
       "styles:list",
       60_000,
-      () => this.request<StyleListResponse>("/styles"),
+      () => this.request<StyleListResponse>("/styles", undefined, 0, call),
     );
   }
 
-  async listBasicStyles(): Promise<StyleListResponse> {
+  async listBasicStyles(call: CallOptions = {}): Promise<StyleListResponse> {
     return this.cachedRequest(
       "styles:basic",
       600_000,
-      () => this.request<StyleListResponse>("/styles/basic"),
+      () => this.request<StyleListResponse>("/styles/basic", undefined, 0, call),
     );
   }
 
-  async deleteStyle(styleId: string): Promise<void> {
-    await this.request<unknown>(`/styles/${encodeURIComponent(styleId)}`, { method: "DELETE" });
+  async deleteStyle(styleId: string, call: CallOptions = {}): Promise<void> {
+    await this.request<unknown>(`/styles/${encodeURIComponent(styleId)}`, { method: "DELETE" }, 0, call);
     this.cache.invalidate("styles:");
   }
 
   // --- User ---
 
-  async getCurrentUser(): Promise<UserResponse> {
+  async getCurrentUser(call: CallOptions = {}): Promise<UserResponse> {
     return this.cachedRequest(
       "user:me",
       60_000,
-      () => this.request<UserResponse>("/users/me"),
+      () => this.request<UserResponse>("/users/me", undefined, 0, call),
     );
   }
 
   // --- Private ---
 
+  /**
+   * Run a paid request with its estimated cost reserved against the budget,
+   * then charge what Recraft reports it cost. A request that was refused or
+   * never sent releases the reservation; one that may have run (a timeout,
+   * a dropped connection, an abort mid-request or a server error) is charged
+   * the estimate.
+   */
+  private async paid<T extends { credits: number }>(
+    tool: CostedTool,
+    estimate: number,
+    call: CallOptions,
+    request: (call: PaidCall) => Promise<T>,
+  ): Promise<T> {
+    const reservation = await this.budget.reserve(tool, estimate);
+    const delivery = { mayHaveRun: false };
+    try {
+      const response = await request({ ...call, delivery });
+      await reservation.settle(response.credits);
+      return response;
+    } catch (error) {
+      if (delivery.mayHaveRun) await reservation.settle(estimate).catch(() => undefined);
+      else reservation.release();
+      throw error;
+    }
+  }
+
+  /** Read an image input and label it with its real type, refusing non-images and oversized images. */
+  private async loadUpload(
+    field: string,
+    imageInput: string,
+    tool: string,
+    signal?: AbortSignal,
+  ): Promise<{ blob: Blob; extension: string; checked: CheckedImage }> {
+    const source = await fetchImageBlob(imageInput, this.imageInput, signal, field);
+    const bytes = new Uint8Array(await source.arrayBuffer());
+    const type = identifyUpload(field, bytes, source.type);
+    return {
+      blob: new Blob([bytes], { type: type.mimeType }),
+      extension: type.extension,
+      checked: checkImageLimits(field, bytes, tool),
+    };
+  }
+
   private async buildFormData(
+    tool: CostedTool,
     files: Record<string, string>,
     fields: Record<string, unknown>,
+    call: CallOptions = {},
   ): Promise<FormData> {
     const form = new FormData();
+    const checked: Record<string, CheckedImage> = {};
 
+    call.onProgress?.("upload", `Uploading ${Object.keys(files).join(" and ")}`);
+    // Every file is checked against the endpoint's limits before the request is sent
     for (const [name, imageInput] of Object.entries(files)) {
-      const blob = await fetchImageBlob(imageInput);
-      form.append(name, blob, `${name}.png`);
+      const upload = await this.loadUpload(name, imageInput, tool, call.signal);
+      checked[name] = upload.checked;
+      form.append(name, upload.blob, `${name}.${upload.extension}`);
     }
+    if (checked.image && checked.mask) checkMaskMatchesImage(checked.image, checked.mask);
 
     for (const [key, value] of Object.entries(fields)) {
       if (value === undefined || value === null) continue;
@@ -222,59 +475,107 @@ export class RecraftClient {
 
   private static async parseBody(response: Response): Promise<unknown> {
     const contentType = response.headers.get("content-type") ?? "";
-    return contentType.includes("application/json")
-      ? response.json().catch(() => null)
-      : response.text().catch(() => "");
+    return contentType.includes("application/json") ? response.json() : response.text();
   }
 
-  private async jsonRequest<T>(path: string, body: Record<string, unknown>): Promise<T> {
+  private async jsonRequest<T>(
+    path: string,
+    body: Record<string, unknown>,
+    images = 0,
+    call: PaidCall = {},
+  ): Promise<T> {
     return this.request<T>(path, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(body),
-    });
+    }, images, call);
   }
 
-  private async multipartRequest<T>(path: string, form: FormData): Promise<T> {
+  private async multipartRequest<T>(path: string, form: FormData, images = 0, call: PaidCall = {}): Promise<T> {
     return this.request<T>(path, {
       method: "POST",
       body: form,
-    });
+    }, images, call);
   }
 
-  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+  // Exponential backoff with equal jitter: half the delay is fixed, half random
+  private backoffDelay(attempt: number): number {
+    const delay = Math.min(
+      this.retry.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+      (this.retry.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * 2 ** attempt,
+    );
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /** `images` is how many images the call produces, counted against the per-minute image limit. */
+  private async request<T>(path: string, init?: RequestInit, images = 0, call: PaidCall = {}): Promise<T> {
     const headers = new Headers(init?.headers);
     headers.set("Authorization", `Bearer ${this.apiToken}`);
 
     const url = `${this.baseUrl}${path}`;
-    const requestInit: RequestInit = { ...init, headers };
-
-    const maxRetries = Math.max(0, this.retry.maxRetries);
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      const response = await fetch(url, requestInit);
+    const policy = (init?.method ?? "GET") === "POST" ? this.postPolicy : this.getPolicy;
+
+    const { signal } = call;
+    call.onProgress?.("waiting", "Waiting for Recraft");
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < policy.maxRetries;
+
+      // A rejected attempt produces no images, so they are only counted once
+      await this.rateLimiter.acquire(attempt === 0 ? images : 0, signal);
+
+      const signals = [signal, policy.timeoutMs > 0 ? AbortSignal.timeout(policy.timeoutMs) : undefined]
+        .filter((s): s is AbortSignal => s !== undefined);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          ...init,
+          headers,
+          ...(signals.length > 0 ? { signal: AbortSignal.any(signals) } : {}),
+        });
+      } catch (error) {
+        // The request may have reached Recraft before the connection failed or was aborted
+        if (call.delivery) call.delivery.mayHaveRun = true;
+        // Cancelled by the caller: stop without retrying
+        if (signal?.aborted) throw signal.reason;
+        if (policy.retryNetworkErrors && canRetry) {
+          await sleep(this.backoffDelay(attempt), signal);
+          continue;
+        }
+        throw toNetworkError(error, policy.timeoutMs);
+      }
 
       if (response.ok) {
-        return await RecraftClient.parseBody(response) as T;
+        try {
+          return await RecraftClient.parseBody(response) as T;
+        } catch (error) {
+          // Recraft ran the call, but its reply was cut off or timed out while being read
+          if (call.delivery) call.delivery.mayHaveRun = true;
+          if (signal?.aborted) throw signal.reason;
+          throw toNetworkError(error, policy.timeoutMs);
+        }
       }
 
-      if (response.status === 429 && attempt < maxRetries) {
-        const retryAfter = response.headers.get("retry-after");
-        const delayMs = retryAfter
-          ? parseInt(retryAfter, 10) * 1000
-          : Math.pow(2, attempt) * 1000;
-        await sleep(delayMs);
+      if (call.delivery && response.status >= 500 && !REFUSED_STATUSES.has(response.status)) {
+        call.delivery.mayHaveRun = true;
+      }
+      const retryable = REFUSED_STATUSES.has(response.status)
+        || (policy.retryServerErrors && RETRYABLE_SERVER_STATUSES.has(response.status));
+      if (retryable && canRetry) {
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        await sleep(retryAfter !== undefined
+          ? Math.min(retryAfter, this.retry.maxDelayMs ?? DEFAULT_MAX_DELAY_MS)
+          : this.backoffDelay(attempt), signal);
         continue;
       }
 
       throw new RecraftApiError(
         `Recraft API request failed: ${response.status} ${response.statusText}`,
         response.status,
-        await RecraftClient.parseBody(response),
+        // The error details are informational, so an unreadable body is not fatal
+        await RecraftClient.parseBody(response).catch(() => undefined),
       );
     }
-
-    /* v8 ignore next */
-    throw new Error("Retry loop exited unexpectedly");
   }
 }
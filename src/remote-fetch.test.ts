@@ -0,0 +1,147 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { fetchRemoteImage, isPrivateAddress, type RemoteFetchPolicy } from "./remote-fetch.js";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+const publicDns = (hosts: Record<string, string> = {}): RemoteFetchPolicy["resolve"] =>
+  async (hostname) => [hosts[hostname] ?? "93.184.216.34"];
+
+describe("isPrivateAddress", () => {
+  it("should flag loopback, private, link-local and mapped addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fe80::1", "fd00::1", "::ffff:127.0.0.1"]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("should allow public addresses", () => {
+    for (const address of ["93.184.216.34", "8.8.8.8", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe("fetchRemoteImage", () => {
+  let server: Server;
+  let base: string;
+  let hosts: string[];
+  let handler: (req: IncomingMessage, res: ServerResponse) => void;
+
+  // Test hosts resolve to the local server, so the policy lists them as private hosts
+  const local = (policy: RemoteFetchPolicy = {}): RemoteFetchPolicy => ({
+    privateHosts: ["*.example.com"],
+    resolve: async () => ["127.0.0.1"],
+    ...policy,
+  });
+
+  beforeEach(async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(PNG, { headers: { "content-type": "image/png" } })));
+    hosts = [];
+    handler = (_req, res) => {
+      res.writeHead(200, { "content-type": "image/png" });
+      res.end(PNG);
+    };
+    server = createServer((req, res) => {
+      hosts.push(req.headers.host ?? "");
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it("should connect to the address it checked and keep the content type", async () => {
+    // A second lookup would answer with another address, as in DNS rebinding
+    const resolve = vi.fn<(hostname: string) => Promise<string[]>>()
+      .mockResolvedValueOnce(["127.0.0.1"])
+      .mockResolvedValue(["10.0.0.9"]);
+    const blob = await fetchRemoteImage(`http://images.example.com${base}/a.png`, local({ resolve }));
+
+    expect(blob.type).toBe("image/png");
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(PNG);
+    expect(hosts).toEqual([`images.example.com${base}`]);
+    expect(resolve).toHaveBeenCalledTimes(1);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should refuse hosts that resolve to private addresses without fetching", async () => {
+    await expect(fetchRemoteImage("http://localhost:8080/a.png", { resolve: publicDns({ localhost: "127.0.0.1" }) }))
+      .rejects.toThrow("Image URL host localhost resolves to a private or local address (127.0.0.1)");
+    await expect(fetchRemoteImage("http://169.254.169.254/latest/meta-data/")).rejects.toThrow("private or local address");
+    await expect(fetchRemoteImage("http://[::1]/a.png")).rejects.toThrow("(::1)");
+    await expect(fetchRemoteImage("https://nowhere.example.com/a.png", { resolve: async () => [] }))
+      .rejects.toThrow("Could not resolve the image URL host nowhere.example.com");
+    expect(hosts).toEqual([]);
+  });
+
+  it("should allow private hosts that are explicitly listed", async () => {
+    const policy = { privateHosts: ["assets.internal"], resolve: publicDns({ "assets.internal": "127.0.0.1" }) };
+
+    await expect(fetchRemoteImage(`http://assets.internal${base}/a.png`, policy)).resolves.toBeInstanceOf(Blob);
+    expect(hosts).toEqual([`assets.internal${base}`]);
+  });
+
+  it("should restrict hosts to the allow-list", async () => {
+    const policy = local({ allowedHosts: ["*.example.com", "cdn.test"], privateHosts: ["*.example.com", "cdn.test"] });
+
+    await expect(fetchRemoteImage(`http://img.example.com${base}/a.png`, policy)).resolves.toBeInstanceOf(Blob);
+    await expect(fetchRemoteImage(`http://cdn.test${base}/a.png`, policy)).resolves.toBeInstanceOf(Blob);
+    await expect(fetchRemoteImage("https://evil.test/a.png", policy))
+      .rejects.toThrow("Image URL host evil.test is not in RECRAFT_ALLOWED_HOSTS: *.example.com, cdn.test");
+  });
+
+  it("should check every redirect hop and cap redirects", async () => {
+    handler = (_req, res) => {
+      res.writeHead(302, { location: "http://127.0.0.1/secret" });
+      res.end();
+    };
+    await expect(fetchRemoteImage(`http://images.example.com${base}/a.png`, local()))
+      .rejects.toThrow("private or local address (127.0.0.1)");
+    expect(hosts).toHaveLength(1);
+
+    hosts = [];
+    handler = (_req, res) => {
+      res.writeHead(302, { location: "/again" });
+      res.end();
+    };
+    await expect(fetchRemoteImage(`http://images.example.com${base}/a.png`, local({ maxRedirects: 2 })))
+      .rejects.toThrow("Image URL redirected more than 2 times");
+    expect(hosts).toHaveLength(3);
+  });
+
+  it("should stop downloading past the byte limit", async () => {
+    handler = (_req, res) => {
+      res.writeHead(200);
+      for (let i = 0; i < 4; i++) res.write(new Uint8Array(64));
+    };
+    await expect(fetchRemoteImage(`http://images.example.com${base}/big.png`, local({ maxBytes: 100 })))
+      .rejects.toThrow("Image URL response is over the 100-byte download limit");
+
+    handler = (_req, res) => {
+      res.writeHead(200, { "content-length": "5000000000" });
+      res.write(PNG);
+    };
+    await expect(fetchRemoteImage(`http://images.example.com${base}/huge.png`, local())).rejects.toThrow("download limit");
+  });
+
+  it("should time out slow downloads", async () => {
+    handler = () => undefined;
+
+    await expect(fetchRemoteImage(`http://images.example.com${base}/slow.png`, local({ timeoutMs: 20 })))
+      .rejects.toThrow("Fetching the image URL timed out after 20ms");
+  });
+
+  it("should skip host rules for trusted URLs", async () => {
+    const policy = { allowedHosts: ["cdn.test"], resolve: publicDns({ "img.recraft.test": "10.0.0.1" }) };
+
+    await expect(fetchRemoteImage("https://img.recraft.test/a.png", policy, { trusted: true })).resolves.toBeInstanceOf(Blob);
+    expect(fetch).toHaveBeenCalledWith("https://img.recraft.test/a.png", expect.objectContaining({ redirect: "manual" }));
+    await expect(fetchRemoteImage("file:///etc/passwd", policy, { trusted: true })).rejects.toThrow("must use http or https");
+  });
+});
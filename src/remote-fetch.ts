@@ -0,0 +1,232 @@
+import { lookup } from "node:dns/promises";
+import { request as httpRequest, type IncomingHttpHeaders } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import { DEFAULT_IMAGE_LIMITS } from "./image-limits.js";
+
+/** Rules for fetching image URLs supplied as tool inputs. */
+export interface RemoteFetchPolicy {
+  /** Hosts image URLs may point at; `*.example.com` also matches subdomains. Empty or unset allows any public host. */
+  allowedHosts?: string[];
+  /** Hosts that may resolve to private, loopback or link-local addresses. */
+  privateHosts?: string[];
+  maxBytes?: number;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  /** Resolve a hostname to its addresses. Default: the system resolver. */
+  resolve?: (hostname: string) => Promise<string[]>;
+}
+
+export interface RemoteFetchOptions {
+  signal?: AbortSignal;
+  /**
+   * The URL came from the Recraft API rather than a tool input, so the host
+   * rules are skipped; size, redirect and time limits still apply.
+   */
+  trusted?: boolean;
+}
+
+export const DEFAULT_FETCH_TIMEOUT_MS = 30_000;
+export const DEFAULT_MAX_REDIRECTS = 3;
+
+// Loopback, private, carrier-grade NAT, link-local (including cloud metadata), multicast and reserved ranges.
+// BlockList also applies the IPv4 rules to IPv4-mapped IPv6 addresses such as ::ffff:127.0.0.1.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+const matchesHost = (hostname: string, patterns: string[] = []): boolean =>
+  patterns.some((pattern) => {
+    const host = pattern.trim().toLowerCase();
+    return host.startsWith("*.") ? hostname.endsWith(host.slice(1)) || hostname === host.slice(2) : hostname === host;
+  });
+
+const resolveAddresses = async (hostname: string, policy: RemoteFetchPolicy): Promise<string[]> => {
+  if (isIP(hostname)) return [hostname];
+  let addresses: string[] = [];
+  try {
+    addresses = policy.resolve
+      ? await policy.resolve(hostname)
+      : (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    // Reported below
+  }
+  if (addresses.length === 0) throw new Error(`Could not resolve the image URL host ${hostname}`);
+  return addresses;
+};
+
+/**
+ * Refuse URLs that are not http(s), fall outside the host allow-list, or
+ * resolve to a private address, and return the addresses that passed for the
+ * request to connect to. Trusted URLs skip the host rules and return none.
+ */
+const assertAllowedUrl = async (url: URL, policy: RemoteFetchPolicy, trusted: boolean): Promise<string[] | undefined> => {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Image URLs must use http or https, not ${url.protocol.slice(0, -1)}`);
+  }
+  if (trusted) return undefined;
+
+  // URL keeps IPv6 literals in brackets
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (policy.allowedHosts?.length && !matchesHost(hostname, policy.allowedHosts)) {
+    throw new Error(`Image URL host ${hostname} is not in RECRAFT_ALLOWED_HOSTS: ${policy.allowedHosts.join(", ")}`);
+  }
+
+  const addresses = await resolveAddresses(hostname, policy);
+  const blocked = matchesHost(hostname, policy.privateHosts) ? undefined : addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new Error(
+      `Image URL host ${hostname} resolves to a private or local address (${blocked}). Add it to RECRAFT_PRIVATE_HOSTS to allow it.`,
+    );
+  }
+  return addresses;
+};
+
+// Answer the socket's DNS lookup with the addresses that were already checked
+const pinnedLookup = (addresses: string[]): LookupFunction => (_hostname, options, callback) => {
+  const entries = addresses.map((address) => ({ address, family: isIP(address) }));
+  if (options.all) callback(null, entries);
+  else callback(null, entries[0].address, entries[0].family);
+};
+
+const toHeaders = (headers: IncomingHttpHeaders): Headers => {
+  const result = new Headers();
+  for (const [name, value] of Object.entries(headers)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) result.append(name, item);
+  }
+  return result;
+};
+
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/**
+ * GET `url` over a fresh connection to one of `addresses`. fetch would
+ * resolve the name again, and a DNS answer that changed since the check
+ * (DNS rebinding) could point it at a private address. TLS still verifies
+ * the certificate against the URL's hostname.
+ */
+const fetchPinned = (url: URL, addresses: string[], signal?: AbortSignal): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? httpsRequest : httpRequest)(
+      url,
+      { method: "GET", agent: false, lookup: pinnedLookup(addresses), signal },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        const body = NULL_BODY_STATUSES.has(status) ? null : (Readable.toWeb(res) as ReadableStream<Uint8Array>);
+        if (!body) res.resume();
+        resolve(new Response(body, { status, statusText: res.statusMessage, headers: toHeaders(res.headers) }));
+      },
+    );
+    request.once("error", reject);
+    request.end();
+  });
+
+const readBody = async (response: Response, maxBytes: number): Promise<Uint8Array<ArrayBuffer>[]> => {
+  const tooLarge = (): Error => new Error(`Image URL response is over the ${maxBytes}-byte download limit`);
+
+  const declared = Number(response.headers?.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel().catch(() => undefined);
+    throw tooLarge();
+  }
+
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > maxBytes) throw tooLarge();
+    return [bytes];
+  }
+
+  // Content-Length can be missing or wrong, so the limit is enforced while streaming
+  const reader = response.body.getReader();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return chunks;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw tooLarge();
+    }
+    chunks.push(value as Uint8Array<ArrayBuffer>);
+  }
+};
+
+/**
+ * Fetch an image URL under `policy`: redirects are followed by hand so every
+ * hop is checked, each hop connects only to the addresses its check resolved,
+ * the body is capped at `maxBytes`, and the whole download must finish within
+ * `timeoutMs`. The blob carries the response's Content-Type.
+ */
+export const fetchRemoteImage = async (
+  input: string,
+  policy: RemoteFetchPolicy = {},
+  options: RemoteFetchOptions = {},
+): Promise<Blob> => {
+  const timeoutMs = policy.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+  const maxRedirects = policy.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  // A timeout of 0 disables it, as for the API request timeouts
+  const timeout = timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined;
+  const signals = [options.signal, timeout].filter((signal): signal is AbortSignal => signal !== undefined);
+  const signal = signals.length > 0 ? AbortSignal.any(signals) : undefined;
+
+  let url = new URL(input);
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const addresses = await assertAllowedUrl(url, policy, options.trusted === true);
+      const response = addresses
+        ? await fetchPinned(url, addresses, signal)
+        : await fetch(url.href, { signal, redirect: "manual" });
+
+      const location = response.headers?.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel().catch(() => undefined);
+        if (redirects >= maxRedirects) throw new Error(`Image URL redirected more than ${maxRedirects} times`);
+        url = new URL(location, url);
+        continue;
+      }
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => undefined);
+        throw new Error(`Failed to fetch image from URL: ${response.status} ${response.statusText}`);
+      }
+
+      const chunks = await readBody(response, policy.maxBytes ?? DEFAULT_IMAGE_LIMITS.maxBytes);
+      return new Blob(chunks, { type: response.headers?.get("content-type") ?? "" });
+    }
+  } catch (error) {
+    if (timeout?.aborted && !options.signal?.aborted) {
+      throw new Error(`Fetching the image URL timed out after ${timeoutMs}ms`, { cause: error });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { RecraftClient } from "../recraft-client.js";
+import { connectServer, testClient } from "../test-utils.js";
+import { registerImageResources } from "./images.js";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe("image resources", () => {
+  let client: RecraftClient;
+  let mcpClient: Client;
+
+  beforeEach(async () => {
+    client = testClient();
+    vi.stubGlobal("fetch", vi.fn());
+    mcpClient = await connectServer((server) => registerImageResources(server, client));
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should list recorded images as resources", async () => {
+    client.images.record("generate_image", [{ image_id: "abc", url: "https://img.test/abc" }], "a cat");
+
+    const { resources } = await mcpClient.listResources();
+    expect(resources.map((r) => r.uri)).toContain("recraft://images/abc");
+  });
+
+  it("should return the session listing as JSON", async () => {
+    client.images.record("generate_image", [{ image_id: "abc", url: "https://img.test/abc" }]);
+
+    const result = await mcpClient.readResource({ uri: "recraft://images" });
+    const listing = JSON.parse(result.contents[0].text as string);
+    expect(listing.images[0]).toMatchObject({ image_id: "abc", uri: "recraft://images/abc" });
+  });
+
+  it("should read an image as a blob", async () => {
+    client.images.record("generate_image", [{ image_id: "abc", url: "https://img.test/abc" }]);
+    vi.mocked(fetch).mockResolvedValue(new Response(PNG_BYTES));
+
+    const result = await mcpClient.readResource({ uri: "recraft://images/abc" });
+    expect(result.contents[0]).toMatchObject({
+      mimeType: "image/png",
+      blob: Buffer.from(PNG_BYTES).toString("base64"),
+    });
+  });
+
+  it("should send list_changed when images arrive", async () => {
+    const changed = new Promise<void>((resolve) => {
+      mcpClient.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve());
+    });
+
+    client.images.record("generate_image", [{ image_id: "abc" }]);
+    await expect(changed).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RecraftClient } from "../recraft-client.js";
+import { IMAGES_URI, imageUri, type ImageRecord } from "../image-registry.js";
+import { detectImageType } from "../image-format.js";
+import { downloadImage } from "../output.js";
+
+const describeImage = (record: ImageRecord): string =>
+  [record.operation, record.prompt ? `"${record.prompt}"` : null].filter(Boolean).join(": ");
+
+const toListing = (record: ImageRecord) => ({
+  image_id: record.image_id,
+  uri: imageUri(record.image_id),
+  url: record.url,
+  operation: record.operation,
+  prompt: record.prompt,
+  created: new Date(record.created).toISOString(),
+});
+
+export const registerImageResources = (server: McpServer, client: RecraftClient): void => {
+  server.registerResource(
+    "images",
+    IMAGES_URI,
+    {
+      title: "Session Images",
+      description: "All images generated or processed during this session, newest first.",
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify({ images: client.images.list().map(toListing) }, null, 2),
+        },
+      ],
+    }),
+  );
+
+  server.registerResource(
+    "image",
+    new ResourceTemplate(`${IMAGES_URI}/{image_id}`, {
+      list: async () => ({
+        resources: client.images.list().map((record) => ({
+          uri: imageUri(record.image_id),
+          name: record.image_id,
+          description: describeImage(record),
+        })),
+      }),
+    }),
+    {
+      title: "Session Image",
+      description: "An image generated or processed during this session, by image ID.",
+    },
+    async (uri, { image_id }, extra) => {
+      const imageId = decodeURIComponent(String(image_id));
+      const record = client.images.get(imageId);
+      if (!record) {
+        throw new Error(`Unknown image: ${imageId}. Read ${IMAGES_URI} for the images in this session.`);
+      }
+
+      const bytes = await downloadImage(record, extra.signal);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: detectImageType(bytes)?.mimeType ?? "application/octet-stream",
+            blob: Buffer.from(bytes).toString("base64"),
+          },
+        ],
+      };
+    },
+  );
+
+  // One client can back many servers (one per HTTP session); stop notifying once a session closes
+  const unsubscribe = client.images.onChange(() => server.sendResourceListChanged());
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    onclose?.();
+  };
+};
@@ -1,13 +1,37 @@
 import { createRequire } from "node:module";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { RecraftClient } from "./recraft-client.js";
+import type { HistoryLedger } from "./history.js";
+import type { JobQueue } from "./jobs.js";
 import { registerGenerationTools } from "./tools/generation.js";
 import { registerProcessingTools } from "./tools/processing.js";
 import { registerStyleTools } from "./tools/styles.js";
+import { registerHistoryTools } from "./tools/history.js";
+import { registerBudgetTools } from "./tools/budget.js";
+import { registerRateLimitTools } from "./tools/rate-limit.js";
+import { registerModelTools } from "./tools/models.js";
+import { registerPipelineTools } from "./tools/pipeline.js";
+import { registerBatchTools } from "./tools/batch.js";
+import { registerJobTools } from "./tools/jobs.js";
+import { registerMaskTools } from "./tools/masks.js";
+import { registerImageResources } from "./resources/images.js";
 
 const require = createRequire(import.meta.url);
 const { version } = require("../package.json") as { version: string };
 
+export interface ServerOptions {
+  /** Default directory generated and processed images are saved to. */
+  outputDir?: string;
+  /** Return every image result as inline MCP image content, not just b64_json calls. */
+  inlineImages?: boolean;
+  /** Largest image (in bytes) returned inline before falling back to the URL. */
+  maxInlineBytes?: number;
+  /** Ledger that generation requests are recorded to; history tools are only registered when set. */
+  history?: HistoryLedger;
+  /** Queue for calls made with `background: true`; job tools are only registered when set. */
+  jobs?: JobQueue;
+}
+
 export type Toolset = "generation" | "processing" | "styles";
 
 const ALL_TOOLSETS: Toolset[] = ["generation", "processing", "styles"];
@@ -27,22 +51,44 @@ export const parseToolsets = (env?: string): Set<Toolset> => {
   return valid.size > 0 ? valid : new Set(ALL_TOOLSETS);
 };
 
-type ToolRegisterer = (server: McpServer, client: RecraftClient) => void;
+type ToolRegisterer = (server: McpServer, client: RecraftClient, options: ServerOptions) => void;
 
 const toolsetRegistry: Record<Toolset, ToolRegisterer[]> = {
-  generation: [registerGenerationTools],
-  processing: [registerProcessingTools],
+  generation: [
+    registerGenerationTools,
+    registerBatchTools,
+    registerModelTools,
+    registerHistoryTools,
+    registerPipelineTools,
+    registerMaskTools,
+    registerJobTools,
+    registerBudgetTools,
+    registerRateLimitTools,
+  ],
+  processing: [
+    registerProcessingTools,
+    registerPipelineTools,
+    registerMaskTools,
+    registerJobTools,
+    registerBudgetTools,
+    registerRateLimitTools,
+  ],
   styles: [registerStyleTools],
 };
 
 export const createServer = (
   client: RecraftClient,
   toolsets?: Set<Toolset>,
+  options: ServerOptions = {},
 ): McpServer => {
-  const server = new McpServer({
-    name: "recraft-mcp",
-    version,
-  });
+  const server = new McpServer(
+    {
+      name: "recraft-mcp",
+      version,
+    },
+    // Logging carries background job completion notifications
+    { capabilities: { logging: {} } },
+  );
 
   const enabled = toolsets ?? new Set(ALL_TOOLSETS);
   const registered = new Set<ToolRegisterer>();
@@ -53,10 +99,12 @@ export const createServer = (
     for (const register of registerers) {
       if (!registered.has(register)) {
         registered.add(register);
-        register(server, client);
+        register(server, client, options);
       }
     }
   }
 
+  registerImageResources(server, client);
+
   return server;
 };
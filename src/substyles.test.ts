@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { ALL_SUBSTYLES, findSubstyleIssue, substylesFor } from "./substyles.js";
+
+describe("substylesFor", () => {
+  it("should return the substyles of a style on a model", () => {
+    expect(substylesFor("recraftv3", "logo_raster")).toEqual([
+      "emblem_graffiti", "emblem_pop_art", "emblem_punk", "emblem_stamp", "emblem_vintage",
+    ]);
+    expect(substylesFor("recraftv2", "digital_illustration")).toContain("watercolor");
+    expect(substylesFor("recraftv3", "digital_illustration")).not.toContain("watercolor");
+  });
+
+  it("should return nothing for models without styles", () => {
+    expect(substylesFor("recraftv4", "realistic_image")).toEqual([]);
+  });
+
+  it("should list each substyle once", () => {
+    expect(new Set(ALL_SUBSTYLES).size).toBe(ALL_SUBSTYLES.length);
+    expect(ALL_SUBSTYLES).toContain("kawaii");
+  });
+});
+
+describe("findSubstyleIssue", () => {
+  it("should accept matching pairs", () => {
+    expect(findSubstyleIssue("recraftv3", "realistic_image", "b_and_w")).toBeUndefined();
+  });
+
+  it("should list the valid options for mismatched pairs", () => {
+    expect(findSubstyleIssue("recraftv3", "icon", "b_and_w")).toBe(
+      "Substyle b_and_w does not belong to icon on recraftv3. Valid substyles: broken_line, colored_outline, colored_shapes, " +
+      "colored_shapes_gradient, doodle_fill, doodle_offset_fill, offset_fill, outline, outline_gradient, uneven_fill.",
+    );
+  });
+
+  it("should report styles without substyles", () => {
+    expect(findSubstyleIssue("recraftv2", "logo_raster", "emblem_punk")).toBe("logo_raster has no substyles on recraftv2.");
+  });
+});
@@ -0,0 +1,81 @@
+import type { ImageStyle, ImageSubStyle, RecraftModel } from "./types.js";
+
+export type SubstyleTable = Partial<Record<ImageStyle, readonly ImageSubStyle[]>>;
+
+const V3_SUBSTYLES: SubstyleTable = {
+  realistic_image: [
+    "b_and_w", "enterprise", "evening_light", "faded_nostalgia", "forest_life", "hard_flash", "hdr",
+    "motion_blur", "mystic_naturalism", "natural_light", "natural_tones", "organic_calm", "real_life_glow",
+    "retro_realism", "retro_snapshot", "studio_portrait", "urban_drama", "village_realism", "warm_folk",
+  ],
+  digital_illustration: [
+    "2d_art_poster", "2d_art_poster_2", "antiquarian", "bold_fantasy", "child_book", "child_books", "cover",
+    "crosshatch", "digital_engraving", "engraving_color", "expressionism", "freehand_details", "grain",
+    "grain_20", "graphic_intensity", "hand_drawn", "hand_drawn_outline", "handmade_3d", "hard_comics",
+    "infantile_sketch", "long_shadow", "modern_folk", "multicolor", "neon_calm", "noir", "nostalgic_pastel",
+    "outline_details", "pastel_gradient", "pastel_sketch", "pixel_art", "plastic", "pop_art", "pop_renaissance",
+    "seamless", "street_art", "tablet_sketch", "urban_glow", "urban_sketching", "vanilla_dreams",
+    "young_adult_book", "young_adult_book_2",
+  ],
+  vector_illustration: [
+    "bold_stroke", "chemistry", "colored_stencil", "contour_pop_art", "cosmics", "cutout", "depressive",
+    "editorial", "emotional_flat", "engraving", "infographical", "line_art", "line_circuit", "linocut",
+    "marker_outline", "mosaic", "naivector", "roundish_flat", "segmented_colors", "sharp_contrast", "thin",
+    "vector_photo", "vivid_shapes",
+  ],
+  icon: [
+    "broken_line", "colored_outline", "colored_shapes", "colored_shapes_gradient", "doodle_fill",
+    "doodle_offset_fill", "offset_fill", "outline", "outline_gradient", "uneven_fill",
+  ],
+  logo_raster: ["emblem_graffiti", "emblem_pop_art", "emblem_punk", "emblem_stamp", "emblem_vintage"],
+};
+
+const V2_SUBSTYLES: SubstyleTable = {
+  realistic_image: [
+    "b_and_w", "enterprise", "evening_light", "hard_flash", "hdr", "motion_blur", "natural_light", "studio_portrait",
+  ],
+  digital_illustration: [
+    "2d_art_poster", "2d_art_poster_2", "3d", "80s", "engraving_color", "glow", "grain", "hand_drawn",
+    "hand_drawn_outline", "handmade_3d", "infantile_sketch", "kawaii", "pixel_art", "psychedelic", "seamless",
+    "voxel", "watercolor",
+  ],
+  vector_illustration: [
+    "cartoon", "doodle_line_art", "engraving", "flat_2", "kawaii", "line_art", "line_circuit", "linocut", "seamless",
+  ],
+  icon: [
+    "broken_line", "colored_outline", "colored_shapes", "colored_shapes_gradient", "doodle_fill",
+    "doodle_offset_fill", "offset_fill", "outline", "outline_gradient", "uneven_fill",
+  ],
+};
+
+/** Substyles each model accepts, by style. Models without style support have none. */
+export const SUBSTYLES: Record<RecraftModel, SubstyleTable> = {
+  recraftv3: V3_SUBSTYLES,
+  recraftv4: {},
+  recraftv4_vector: {},
+  recraftv2: V2_SUBSTYLES,
+  recraft20b: V2_SUBSTYLES,
+  refm1: V3_SUBSTYLES,
+};
+
+export const ALL_SUBSTYLES = [
+  ...new Set(Object.values(SUBSTYLES).flatMap((table) => Object.values(table).flat())),
+].sort() as [ImageSubStyle, ...ImageSubStyle[]];
+
+export const substylesFor = (model: RecraftModel, style: ImageStyle): readonly ImageSubStyle[] =>
+  SUBSTYLES[model][style] ?? [];
+
+/** Why `substyle` cannot be used with this model and style, or undefined when it can. */
+export const findSubstyleIssue = (
+  model: RecraftModel,
+  style: ImageStyle | undefined,
+  substyle: string,
+): string | undefined => {
+  if (style === undefined) return undefined;
+
+  const valid = substylesFor(model, style);
+  if (valid.includes(substyle as ImageSubStyle)) return undefined;
+  return valid.length > 0
+    ? `Substyle ${substyle} does not belong to ${style} on ${model}. Valid substyles: ${valid.join(", ")}.`
+    : `${style} has no substyles on ${model}.`;
+};
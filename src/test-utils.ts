@@ -0,0 +1,47 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { ServerCapabilities } from "@modelcontextprotocol/sdk/types.js";
+import { RecraftClient, type RecraftClientOptions } from "./recraft-client.js";
+
+// Shared fixtures for tests; excluded from the build
+
+export const PNG_BASE64 = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).toString("base64");
+
+export const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status < 400,
+  status,
+  statusText: status < 400 ? "OK" : "Bad Request",
+  headers: new Headers({ "content-type": "application/json" }),
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+}) as Response;
+
+/** A generation endpoint's reply with one image at https://img.test/<imageId>. */
+export const generationResponse = (imageId = "a", credits = 40) =>
+  jsonResponse({ created: 1, credits, data: [{ image_id: imageId, url: `https://img.test/${imageId}` }] });
+
+/** A processing endpoint's reply with one image at https://img.test/<imageId>. */
+export const processResponse = (imageId = "processed", credits = 1) =>
+  jsonResponse({ created: 1, credits, image: { image_id: imageId, url: `https://img.test/${imageId}` } });
+
+export const testClient = (options?: RecraftClientOptions): RecraftClient =>
+  new RecraftClient("test-token", "https://api.test.com/v1", 0, { maxRetries: 0 }, options);
+
+/** Connect an MCP client to a fresh server set up by `register`. */
+export const connectServer = async (
+  register: (server: McpServer) => void,
+  capabilities?: ServerCapabilities,
+): Promise<Client> => {
+  const server = new McpServer({ name: "test", version: "0.0.0" }, capabilities ? { capabilities } : undefined);
+  register(server);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+};
+
+/** All text blocks of a tool result, one per line. */
+export const resultText = (result: Awaited<ReturnType<Client["callTool"]>>): string =>
+  (result.content as Array<{ type: string; text?: string }>).map((block) => block.text ?? "").join("\n");
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { buildTextLayout, findTextLayoutIssues } from "./text-layout.js";
+
+describe("buildTextLayout", () => {
+  it("should place named positions on a grid inside the margin", () => {
+    expect(buildTextLayout([
+      { text: "TITLE", placement: "top-center" },
+      { text: "footer", placement: "bottom-left" },
+    ])).toEqual([
+      { text: "TITLE", bbox: [[0.35, 0.05], [0.65, 0.05], [0.65, 0.2], [0.35, 0.2]] },
+      { text: "footer", bbox: [[0.05, 0.8], [0.35, 0.8], [0.35, 0.95], [0.05, 0.95]] },
+    ]);
+  });
+
+  it("should honour custom widths for named positions", () => {
+    const [item] = buildTextLayout([{ text: "SALE", placement: "center", width: 60, height: 20 }]);
+    expect(item.bbox).toEqual([[0.2, 0.4], [0.8, 0.4], [0.8, 0.6], [0.2, 0.6]]);
+  });
+
+  it("should normalize percent and pixel rectangles", () => {
+    expect(buildTextLayout([
+      { text: "a", placement: { x: 10, y: 10, width: 50, height: 10 } },
+      { text: "b", placement: { x: 0, y: 1024, width: 512, height: 256, unit: "px" } },
+    ], "1024x1536")).toEqual([
+      { text: "a", bbox: [[0.1, 0.1], [0.6, 0.1], [0.6, 0.2], [0.1, 0.2]] },
+      { text: "b", bbox: [[0, 0.6667], [0.5, 0.6667], [0.5, 0.8333], [0, 0.8333]] },
+    ]);
+  });
+
+  it("should use the image size for pixel rectangles", () => {
+    const [item] = buildTextLayout([{ text: "a", placement: { x: 0, y: 0, width: 1536, height: 512, unit: "px" } }], "1536x1024");
+    expect(item.bbox[2]).toEqual([1, 0.5]);
+  });
+
+  it("should reject boxes outside the image", () => {
+    expect(findTextLayoutIssues([{ text: "a", placement: { x: 0, y: 0, width: 1100, height: 100, unit: "px" } }], "1024x1024"))
+      .toEqual(['"a" (item 1) extends outside the 1024x1024 image.']);
+    expect(() => buildTextLayout([{ text: "a", placement: "top-left", width: 100 }])).toThrow("Invalid text_placements");
+  });
+
+  it("should reject overlapping boxes", () => {
+    expect(findTextLayoutIssues([
+      { text: "a", placement: "center", width: 80 },
+      { text: "b", placement: "middle-left" },
+    ], "1024x1024")).toEqual(['"b" (item 2) overlaps "a" (item 1).']);
+  });
+
+  it("should allow boxes that only touch", () => {
+    expect(findTextLayoutIssues([
+      { text: "a", placement: { x: 0, y: 0, width: 50, height: 10 } },
+      { text: "b", placement: { x: 50, y: 0, width: 50, height: 10 } },
+    ], "1024x1024")).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import type { ImageSize, TextLayoutItem } from "./types.js";
+
+export const TEXT_POSITIONS = [
+  "top-left",
+  "top-center",
+  "top-right",
+  "middle-left",
+  "center",
+  "middle-right",
+  "bottom-left",
+  "bottom-center",
+  "bottom-right",
+] as const;
+
+export type TextPosition = (typeof TEXT_POSITIONS)[number];
+
+/** A rectangle from its top-left corner, in percent of the image (default) or pixels. */
+export interface TextRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  unit?: "percent" | "px";
+}
+
+export interface TextPlacement {
+  text: string;
+  placement: TextPosition | TextRect;
+  /** Box size in percent of the image for named positions. */
+  width?: number;
+  height?: number;
+}
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Named positions sit on a 3x3 grid inside this margin, so the defaults never overlap
+const MARGIN = 0.05;
+const DEFAULT_WIDTH = (1 - 2 * MARGIN) / 3;
+const DEFAULT_HEIGHT = 0.15;
+
+const round = (value: number): number => Math.round(value * 10_000) / 10_000;
+
+export const parseImageSize = (size: ImageSize): { width: number; height: number } => {
+  const [width, height] = size.split("x").map(Number);
+  return { width, height };
+};
+
+const positionBox = (position: TextPosition, width: number, height: number): Box => {
+  const [row, column] = position === "center" ? ["middle", "center"] : position.split("-");
+  const left = column === "left" ? MARGIN : column === "right" ? 1 - MARGIN - width : (1 - width) / 2;
+  const top = row === "top" ? MARGIN : row === "bottom" ? 1 - MARGIN - height : (1 - height) / 2;
+  return { left, top, right: left + width, bottom: top + height };
+};
+
+const rectBox = (rect: TextRect, size: ImageSize): Box => {
+  const { width, height } = rect.unit === "px" ? parseImageSize(size) : { width: 100, height: 100 };
+  return {
+    left: rect.x / width,
+    top: rect.y / height,
+    right: (rect.x + rect.width) / width,
+    bottom: (rect.y + rect.height) / height,
+  };
+};
+
+const toBox = (item: TextPlacement, size: ImageSize): Box =>
+  typeof item.placement === "string"
+    ? positionBox(
+      item.placement,
+      item.width !== undefined ? item.width / 100 : DEFAULT_WIDTH,
+      item.height !== undefined ? item.height / 100 : DEFAULT_HEIGHT,
+    )
+    : rectBox(item.placement, size);
+
+const overlaps = (a: Box, b: Box): boolean =>
+  a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+
+const label = (item: TextPlacement, index: number): string => `"${item.text}" (item ${index + 1})`;
+
+/** Every way the placements break bounds or collide; empty when the layout is valid. */
+export const findTextLayoutIssues = (items: TextPlacement[], size: ImageSize): string[] => {
+  const boxes = items.map((item) => toBox(item, size));
+  const issues: string[] = [];
+
+  boxes.forEach((box, i) => {
+    if (box.right <= box.left || box.bottom <= box.top) {
+      issues.push(`${label(items[i], i)} has an empty box.`);
+    }
+    if (box.left < 0 || box.top < 0 || round(box.right) > 1 || round(box.bottom) > 1) {
+      issues.push(`${label(items[i], i)} extends outside the ${size} image.`);
+    }
+    for (let j = 0; j < i; j++) {
+      if (overlaps(boxes[j], box)) issues.push(`${label(items[i], i)} overlaps ${label(items[j], j)}.`);
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Turn simple placements into the normalized four-corner boxes `text_layout`
+ * expects, clockwise from top-left. Throws if any box is out of bounds or
+ * overlaps another.
+ */
+export const buildTextLayout = (items: TextPlacement[], size: ImageSize = "1024x1024"): TextLayoutItem[] => {
+  const issues = findTextLayoutIssues(items, size);
+  if (issues.length > 0) throw new Error(`Invalid text_placements: ${issues.join(" ")}`);
+
+  return items.map((item) => {
+    const { left, top, right, bottom } = toBox(item, size);
+    const [l, t, r, b] = [left, top, right, bottom].map(round);
+    return { text: item.text, bbox: [[l, t], [r, t], [r, b], [l, b]] };
+  });
+};
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { toTextResult, toErrorResult } from "./tool-result.js";
-import { RecraftApiError } from "./recraft-client.js";
+import { toTextResult, toImageResult, toErrorResult } from "./tool-result.js";
+import { RecraftApiError, RecraftNetworkError } from "./recraft-client.js";
+import { BudgetExceededError } from "./budget.js";
 
 describe("toTextResult", () => {
   it("should return text content", () => {
@@ -19,6 +20,16 @@ describe("toTextResult", () => {
   });
 });
 
+describe("toImageResult", () => {
+  it("should append image blocks after the text", () => {
+    const result = toImageResult("hello", [{ data: "AAAA", mimeType: "image/png" }]);
+    expect(result.content).toEqual([
+      { type: "text", text: "hello" },
+      { type: "image", data: "AAAA", mimeType: "image/png" },
+    ]);
+  });
+});
+
 describe("toErrorResult", () => {
   it("should format RecraftApiError with status", () => {
     const error = new RecraftApiError("Not found", 404);
@@ -52,6 +63,21 @@ describe("toErrorResult", () => {
     expect(result.content[0].text).toContain("temporary issue");
   });
 
+  it("should explain budget errors with a recovery hint", () => {
+    const error = new BudgetExceededError("Credit session budget exceeded: 100 of 100 credits spent.", "session", 100, 100);
+    const result = toErrorResult(error);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("session budget exceeded");
+    expect(result.content[0].text).toContain("get_budget_status");
+  });
+
+  it("should warn that a timed-out call may have been charged", () => {
+    const result = toErrorResult(new RecraftNetworkError("Recraft API request timed out after 1000ms", true));
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("timed out");
+    expect(result.content[0].text).toContain("get_current_user");
+  });
+
   it("should handle generic errors", () => {
     const result = toErrorResult(new Error("something broke"));
     expect(result.isError).toBe(true);
@@ -1,4 +1,6 @@
-import { RecraftApiError } from "./recraft-client.js";
+import { RecraftApiError, RecraftNetworkError } from "./recraft-client.js";
+import { BudgetExceededError } from "./budget.js";
+import { describePromptLimits, IMAGE_SIZES, MODEL_CAPABILITIES, RECRAFT_MODELS } from "./models.js";
 
 export const toTextResult = (
   text: string,
@@ -8,6 +10,23 @@ export const toTextResult = (
   ...(structuredContent ? { structuredContent } : {}),
 });
 
+export interface ImageBlock {
+  data: string;
+  mimeType: string;
+}
+
+export const toImageResult = (
+  text: string,
+  images: ImageBlock[],
+  structuredContent?: Record<string, unknown>,
+) => ({
+  content: [
+    { type: "text" as const, text },
+    ...images.map((image) => ({ type: "image" as const, ...image })),
+  ],
+  ...(structuredContent ? { structuredContent } : {}),
+});
+
 const getRecoverySuggestion = (status: number, message: string): string | null => {
   if (status === 429) {
     return "Rate limit exceeded. Wait a moment and retry, or reduce the frequency of API calls. Limits: 100 images/min, 5 requests/sec.";
@@ -24,13 +43,14 @@ const getRecoverySuggestion = (status: number, message: string): string | null =
   if (status === 400) {
     const lower = message.toLowerCase();
     if (lower.includes("prompt")) {
-      return "Invalid prompt. Prompts must be 1-1000 characters for V2/V3 models, or up to 10000 characters for V4.";
+      return `Invalid prompt. Prompts must be 1-${describePromptLimits()}.`;
     }
     if (lower.includes("style")) {
-      return "Invalid style. V4 models do not support style parameters — use the prompt to control style instead.";
+      const styleless = RECRAFT_MODELS.filter((model) => MODEL_CAPABILITIES[model].styles.length === 0);
+      return `Invalid style. ${styleless.join(" and ")} do not support style parameters — use the prompt to control style instead. Use list_models to check each model's styles.`;
     }
     if (lower.includes("size")) {
-      return "Invalid image size. Supported sizes include: 1024x1024, 1365x1024, 1024x1365, 1536x1024, 1024x1536, 1820x1024, 1024x1820, and more.";
+      return `Invalid image size. Supported sizes: ${IMAGE_SIZES.join(", ")}.`;
     }
     return "Invalid request parameters. Check that all values are in the correct format.";
   }
@@ -64,6 +84,38 @@ export const toErrorResult = (error: unknown) => {
     };
   }
 
+  if (error instanceof RecraftNetworkError) {
+    const recovery = error.timedOut
+      ? "Recraft did not respond in time. A generation or processing call may still have been processed and charged; check your balance with get_current_user before retrying it."
+      : "Could not reach the Recraft API. Check the network connection and retry.";
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `${error.message}\n\nRecovery: ${recovery}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (error instanceof BudgetExceededError) {
+    const recovery = error.scope === "daily"
+      ? "The daily credit budget resets at midnight UTC. Use get_budget_status to check remaining credits."
+      : "Restart the server or raise the configured budget to continue. Use get_budget_status to check remaining credits.";
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `${error.message}\n\nRecovery: ${recovery}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
   return {
     content: [
       {
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { connectServer, jsonResponse, resultText as text, testClient } from "../test-utils.js";
+import { registerBatchTools } from "./batch.js";
+
+describe("batch_generate tool", () => {
+  let mcpClient: Client;
+
+  beforeEach(async () => {
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init?: RequestInit) => {
+      const { prompt } = JSON.parse(init?.body as string);
+      if (prompt.includes("broken")) return jsonResponse({ code: "bad", message: "Prompt rejected" }, 400);
+      const id = prompt.replace(/\W+/g, "-");
+      return jsonResponse({ created: 1, credits: 40, data: [{ image_id: id, url: `https://img.test/${id}` }] });
+    }));
+
+    const client = testClient();
+    mcpClient = await connectServer((server) => registerBatchTools(server, client));
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should render a template per row and share the other parameters", async () => {
+    const result = await mcpClient.callTool({
+      name: "batch_generate",
+      arguments: {
+        prompt_template: "A {{color}} mug",
+        rows: [{ color: "red" }, { color: "blue" }],
+        style: "digital_illustration",
+        colors: ["#ffffff"],
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const bodies = vi.mocked(fetch).mock.calls.map(([, init]) => JSON.parse(init?.body as string));
+    expect(bodies.map((body) => body.prompt).sort()).toEqual(["A blue mug", "A red mug"]);
+    expect(bodies.every((body) => body.style === "digital_illustration" && body.controls.colors.length === 1)).toBe(true);
+    expect(result.structuredContent).toMatchObject({ credits: 80, succeeded: 2, failed: 0 });
+  });
+
+  it("should report failures per prompt without stopping the rest", async () => {
+    const result = await mcpClient.callTool({
+      name: "batch_generate",
+      arguments: { prompts: ["a fox", "a broken fox", "an owl"], concurrency: 1 },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(text(result)).toContain("Batch complete: 2 of 3 prompts succeeded (80 credits used)");
+    expect(text(result)).toContain('2. "a broken fox": failed. Recraft API request failed: 400');
+    expect(result.structuredContent).toMatchObject({
+      items: [
+        { item: 1, prompt: "a fox", credits: 40, images: [{ image_id: "a-fox" }] },
+        { item: 2, prompt: "a broken fox", error: "Recraft API request failed: 400 Bad Request" },
+        { item: 3, prompt: "an owl", credits: 40 },
+      ],
+    });
+  });
+
+  it("should flag the result as an error when every prompt fails", async () => {
+    const result = await mcpClient.callTool({ name: "batch_generate", arguments: { prompts: ["broken"] } });
+    expect(result.isError).toBe(true);
+  });
+
+  it("should reject template rows missing a variable", async () => {
+    const result = await mcpClient.callTool({
+      name: "batch_generate",
+      arguments: { prompt_template: "A {{color}} {{item}}", rows: [{ color: "red", item: "cup" }, { color: "blue" }] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("Row 2 is missing item");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should require exactly one prompt source", async () => {
+    const result = await mcpClient.callTool({
+      name: "batch_generate",
+      arguments: { prompts: ["a"], prompt_template: "b {{x}}", rows: [{ x: 1 }] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("either prompts or prompt_template");
+  });
+
+  it("should estimate every prompt on a dry run", async () => {
+    const result = await mcpClient.callTool({
+      name: "batch_generate",
+      arguments: { prompts: ["a", "b", "c"], n: 2, dry_run: true },
+    });
+
+    expect(text(result)).toContain("Estimated cost: 240 credits (80 per prompt)");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod/v4";
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ITEMS,
+  mapSettled,
+  renderTemplate,
+  templateVariables,
+  type TemplateRow,
+} from "../batch.js";
+import { buildControls } from "../controls.js";
+import { estimateCost } from "../cost.js";
+import { MAX_PROMPT_LENGTH } from "../models.js";
+import { progressReporter } from "../progress.js";
+import type { RecraftClient } from "../recraft-client.js";
+import type { ServerOptions } from "../server.js";
+import type { GenerateImageParams, GenerateImageResponse } from "../types.js";
+import { toErrorResult, toTextResult } from "../tool-result.js";
+import { budgetRefusal, resolveImageResultOptions, toImageToolResult } from "../image-result.js";
+import { backgroundShape, withBackground } from "./jobs.js";
+import {
+  checkSubstyle,
+  controlsShape,
+  dryRunSchema,
+  imageFormatEnum,
+  modelEnum,
+  randomSeed,
+  recordHistory,
+  responseFormatSchema,
+  saveToSchema,
+  sizeEnum,
+  styleEnum,
+  substyleEnum,
+} from "./generation.js";
+
+interface BatchPromptInput {
+  prompts?: string[];
+  prompt_template?: string;
+  rows?: TemplateRow[];
+}
+
+type BatchItem =
+  | { item: number; prompt: string; credits: number; images: Array<{ image_id: string; url?: string }> }
+  | { item: number; prompt: string; error: string };
+
+/** Schema refinement requiring either a prompt list or a template with rows that fill every variable. */
+const checkBatchPrompts = (value: BatchPromptInput, ctx: z.RefinementCtx): void => {
+  if ((value.prompts === undefined) === (value.prompt_template === undefined)) {
+    ctx.addIssue({ code: "custom", message: "Provide either prompts or prompt_template with rows.", path: ["prompts"] });
+    return;
+  }
+  if (value.prompts !== undefined) {
+    if (value.rows !== undefined) ctx.addIssue({ code: "custom", message: "rows only apply to prompt_template.", path: ["rows"] });
+    return;
+  }
+  if (value.rows === undefined) {
+    ctx.addIssue({ code: "custom", message: "prompt_template needs rows of variable values.", path: ["rows"] });
+    return;
+  }
+
+  const variables = templateVariables(value.prompt_template ?? "");
+  value.rows.forEach((row, index) => {
+    const missing = variables.filter((name) => !(name in row));
+    if (missing.length > 0) {
+      ctx.addIssue({ code: "custom", message: `Row ${index + 1} is missing ${missing.join(", ")}.`, path: ["rows", index] });
+    }
+  });
+};
+
+const batchPrompts = ({ prompts, prompt_template, rows }: BatchPromptInput): string[] =>
+  prompts ?? (rows ?? []).map((row) => renderTemplate(prompt_template ?? "", row));
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+const formatBatchResult = (items: BatchItem[], credits: number): string => {
+  const succeeded = items.filter((item) => !("error" in item)).length;
+  const lines = [
+    `Batch complete: ${succeeded} of ${items.length} prompt${items.length !== 1 ? "s" : ""} succeeded (${credits} credits used)`,
+  ];
+
+  for (const item of items) {
+    if ("error" in item) {
+      lines.push(`  ${item.item}. "${item.prompt}": failed. ${item.error}`);
+    } else {
+      lines.push(`  ${item.item}. "${item.prompt}" (${item.credits} credits)`);
+      for (const image of item.images) lines.push(`     ${image.url ?? "(base64)"} (ID: ${image.image_id})`);
+    }
+  }
+
+  return lines.join("\n");
+};
+
+const toBatchDryRunResult = async (client: RecraftClient, params: GenerateImageParams[]) => {
+  const issues: Array<{ item: number; error: string }> = [];
+  for (const [index, item] of params.entries()) {
+    try {
+      await client.previewRequest("generate_image", item);
+    } catch (error) {
+      issues.push({ item: index + 1, error: errorMessage(error) });
+    }
+  }
+
+  const estimate = estimateCost("generate_image", params[0]);
+  const credits = estimate.credits * (params.length - issues.length);
+  const budgetError = await budgetRefusal(client, { generate_image: credits });
+
+  return toTextResult(
+    [
+      `Dry run: batch_generate would send ${params.length - issues.length} of ${params.length} generate_image requests (nothing was sent)`,
+      `  Estimated cost: ${credits} credits (${estimate.credits} per prompt)`,
+      budgetError ? `  Budget: would be refused. ${budgetError}` : "  Budget: within limits",
+      ...issues.map(({ item, error }) => `  ${item}. "${params[item - 1].prompt}": ${error}`),
+    ].join("\n"),
+    {
+      dry_run: true,
+      prompts: params.map((item) => item.prompt),
+      estimate: { per_prompt: estimate, credits },
+      invalid: issues,
+      within_budget: budgetError === undefined,
+    } as unknown as Record<string, unknown>,
+  );
+};
+
+export const registerBatchTools = (
+  server: McpServer,
+  client: RecraftClient,
+  options: ServerOptions = {},
+): void => {
+  server.registerTool(
+    "batch_generate",
+    {
+      title: "Batch Generate",
+      description:
+        "Generate images for many prompts in one call. Pass a list of prompts, or a prompt_template with {{variable}} " +
+        "placeholders and one row of values per image. Every prompt shares the other parameters. Prompts run a few at a " +
+        "time within Recraft's rate limits; one failing prompt does not stop the others. Returns each prompt's images or " +
+        "error and the total credits.",
+      annotations: { readOnlyHint: false, openWorldHint: true },
+
+      inputSchema: z.object({
+        prompts: z.array(z.string().min(1).max(MAX_PROMPT_LENGTH)).min(1).max(MAX_BATCH_ITEMS).optional().describe(
+          `Prompts to generate, one request each (1-${MAX_BATCH_ITEMS}).`,
+        ),
+        prompt_template: z.string().min(1).optional().describe(
+          "Prompt with {{variable}} placeholders, e.g. 'A {{color}} {{product}} on a white background'. Use with rows.",
+        ),
+        rows: z.array(z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])))
+          .min(1).max(MAX_BATCH_ITEMS).optional().describe(
+            "Variable values for prompt_template, one object per image, e.g. [{ \"color\": \"red\", \"product\": \"mug\" }].",
+          ),
+        model: modelEnum.optional().describe("Model to use. Default: recraftv3."),
+        style: styleEnum.optional().describe("Style category. Not supported for V4 models."),
+        substyle: substyleEnum.optional().describe("Substyle to refine the style. Must belong to the style; see list_substyles."),
+        style_id: z.string().uuid().optional().describe("Custom style ID. Cannot be used together with style/substyle."),
+        size: sizeEnum.optional().describe("Image dimensions as WxH. Default: 1024x1024."),
+        n: z.number().int().min(1).max(6).optional().describe("Images per prompt (1-6). Default: 1."),
+        negative_prompt: z.string().optional().describe("What to avoid in every image."),
+        ...controlsShape,
+        image_format: imageFormatEnum.optional().describe("Output format: webp or png."),
+        random_seed: z.number().int().optional().describe("Seed shared by every prompt. Default: a different seed per prompt."),
+        concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).optional().describe(
+          `How many prompts to run at once (1-${MAX_BATCH_CONCURRENCY}). Default: ${DEFAULT_BATCH_CONCURRENCY}.`,
+        ),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
+      }).superRefine(checkSubstyle).superRefine(checkBatchPrompts),
+    },
+    withBackground(server, options, "batch_generate", async (args, extra) => {
+      const { model, style, substyle, style_id, size, n, negative_prompt, text_layout, image_format, random_seed } = args;
+      try {
+        const resultOptions = resolveImageResultOptions("batch_generate", options, args, { signal: extra.signal });
+        const controls = buildControls(args);
+        const params = batchPrompts(args).map((prompt): GenerateImageParams => ({
+          prompt,
+          model,
+          style,
+          substyle,
+          style_id,
+          size,
+          n,
+          negative_prompt,
+          controls,
+          text_layout,
+          image_format,
+          random_seed: random_seed ?? (options.history ? randomSeed() : undefined),
+        }));
+
+        if (args.dry_run) return await toBatchDryRunResult(client, params);
+
+        const report = progressReporter(extra);
+        let finished = 0;
+        const settled = await mapSettled(
+          params,
+          args.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+          async (item): Promise<GenerateImageResponse> => {
+            try {
+              const response = await client.generateImage(item, { signal: extra.signal });
+              await recordHistory(options, "generate_image", item, response);
+              return response;
+            } finally {
+              finished++;
+              report?.(finished, params.length, `Generated ${finished} of ${params.length}`);
+            }
+          },
+          extra.signal,
+        );
+
+        const items: BatchItem[] = settled.map((result, index) => {
+          const { prompt } = params[index];
+          if (result.status === "rejected") return { item: index + 1, prompt, error: errorMessage(result.reason) };
+          const { credits, data } = result.value;
+          return { item: index + 1, prompt, credits, images: data.map(({ image_id, url }) => ({ image_id, url })) };
+        });
+        const images = settled.flatMap((result) => (result.status === "fulfilled" ? result.value.data : []));
+        const credits = items.reduce((sum, item) => sum + ("credits" in item ? item.credits : 0), 0);
+        const failed = items.filter((item) => "error" in item).length;
+
+        const output = await toImageToolResult(
+          formatBatchResult(items, credits),
+          { items, credits, succeeded: items.length - failed, failed } as unknown as Record<string, unknown>,
+          images,
+          resultOptions,
+        );
+        return failed === items.length ? { ...output, isError: true } : output;
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    }),
+  );
+};
@@ -0,0 +1,96 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod/v4";
+import type { RecraftClient } from "../recraft-client.js";
+import type { BudgetUsage } from "../budget.js";
+import { COSTED_TOOLS, estimateCost, formatEstimate } from "../cost.js";
+import { toTextResult, toErrorResult } from "../tool-result.js";
+import { modelEnum, styleEnum } from "./generation.js";
+
+const formatUsage = (label: string, usage: BudgetUsage): string =>
+  usage.limit !== undefined
+    ? `  ${label}: ${usage.spent} of ${usage.limit} credits spent (${usage.remaining} remaining)`
+    : `  ${label}: ${usage.spent} credits spent (no limit)`;
+
+export const registerBudgetTools = (server: McpServer, client: RecraftClient): void => {
+  server.registerTool(
+    "get_budget_status",
+    {
+      title: "Get Budget Status",
+      description:
+        "Show credits spent by this server against the configured budgets: per session, per UTC day, and per tool. " +
+        "Calls that would exceed a budget are refused before reaching the Recraft API.",
+      annotations: { readOnlyHint: true, openWorldHint: false },
+
+      inputSchema: z.object({}),
+    },
+    async () => {
+      try {
+        const status = await client.budget.status();
+        const tools = Object.entries(status.tools).map(([name, usage]) => formatUsage(name, usage));
+
+        return toTextResult(
+          [
+            "Credit budget",
+            formatUsage("Session", status.session),
+            formatUsage(`Today (${status.daily.day} UTC)`, status.daily),
+            ...(tools.length > 0 ? ["Per tool:", ...tools.map((line) => `  ${line}`)] : []),
+          ].join("\n"),
+          status as unknown as Record<string, unknown>,
+        );
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+
+  server.registerTool(
+    "estimate_cost",
+    {
+      title: "Estimate Credit Cost",
+      description:
+        "Estimate the credits one or more generation/processing calls would cost, without calling the API. " +
+        "Pass several items to price a chain, e.g. generate_image with n=6 followed by creative_upscale. " +
+        "Estimates follow Recraft's published pricing; vector styles (vector_illustration, icon) and recraftv4_vector cost more.",
+      annotations: { readOnlyHint: true, openWorldHint: false },
+
+      inputSchema: z.object({
+        items: z.array(z.object({
+          tool: z.enum(COSTED_TOOLS).describe("Tool to price."),
+          model: modelEnum.optional().describe("Model for generation tools. Default: recraftv3."),
+          style: styleEnum.optional().describe("Style for generation tools; vector styles cost more."),
+          n: z.number().int().min(1).max(6).optional().describe("Number of images for generation tools. Default: 1."),
+          count: z.number().int().min(1).max(100).optional().describe("How many times this call is made. Default: 1."),
+        })).min(1).max(50).describe("Calls to price."),
+      }),
+    },
+    async ({ items }) => {
+      try {
+        const estimates = items.map(({ count, ...item }) => {
+          const estimate = estimateCost(item.tool, item);
+          return { ...estimate, count: count ?? 1, total: estimate.credits * (count ?? 1) };
+        });
+        const total = estimates.reduce((sum, e) => sum + e.total, 0);
+        const status = await client.budget.status();
+
+        const lines = estimates.map((e) =>
+          `  - ${e.tool}${e.model ? ` (${e.model})` : ""}: ${formatEstimate(e)}${e.count > 1 ? ` × ${e.count} calls = ${e.total} credits` : ""}`,
+        );
+        const remaining = [status.session.remaining, status.daily.remaining].filter((r): r is number => r !== undefined);
+        const available = remaining.length > 0 ? Math.min(...remaining) : undefined;
+
+        return toTextResult(
+          [
+            `Estimated total: ${total} credits`,
+            ...lines,
+            available !== undefined
+              ? `  Budget remaining: ${available} credits${total > available ? " (not enough for this plan)" : ""}`
+              : null,
+          ].filter(Boolean).join("\n"),
+          { items: estimates, total, budget_remaining: available } as unknown as Record<string, unknown>,
+        );
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+};
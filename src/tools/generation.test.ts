@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { connectServer, generationResponse, PNG_BASE64, testClient } from "../test-utils.js";
+import { registerGenerationTools } from "./generation.js";
+
+describe("generation tool controls", () => {
+  let mcpClient: Client;
+
+  beforeEach(async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    vi.mocked(fetch).mockResolvedValue(generationResponse());
+
+    const client = testClient();
+    mcpClient = await connectServer((server) => registerGenerationTools(server, client));
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should send palettes, background color and text layout on generate_image", async () => {
+    const bbox = [[0.1, 0.1], [0.9, 0.1], [0.9, 0.3], [0.1, 0.3]];
+    const result = await mcpClient.callTool({
+      name: "generate_image",
+      arguments: {
+        prompt: "a poster",
+        colors: ["#1A73E8", { color: [255, 255, 255], weight: 0.2 }],
+        background_color: "#000",
+        text_layout: [{ text: "SALE", bbox }],
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+    expect(body.controls).toEqual({
+      colors: [{ rgb: [26, 115, 232] }, { rgb: [255, 255, 255], weight: 0.2 }],
+      background_color: { rgb: [0, 0, 0] },
+    });
+    expect(body.text_layout).toEqual([{ text: "SALE", bbox }]);
+  });
+
+  it("should send controls as multipart JSON on image tools", async () => {
+    await mcpClient.callTool({
+      name: "replace_background",
+      arguments: { image: PNG_BASE64, prompt: "a beach", colors: ["#ff0000"], no_text: true },
+    });
+
+    const form = vi.mocked(fetch).mock.calls[0][1]?.body as FormData;
+    expect(JSON.parse(form.get("controls") as string)).toEqual({ no_text: true, colors: [{ rgb: [255, 0, 0] }] });
+  });
+
+  it("should compute text_layout from text_placements", async () => {
+    const result = await mcpClient.callTool({
+      name: "generate_image",
+      arguments: {
+        prompt: "a poster",
+        size: "1024x2048",
+        text_placements: [{ text: "SALE", placement: { x: 0, y: 0, width: 1024, height: 512, unit: "px" } }],
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+    expect(body.text_layout).toEqual([{ text: "SALE", bbox: [[0, 0], [1, 0], [1, 0.25], [0, 0.25]] }]);
+    expect(body).not.toHaveProperty("text_placements");
+  });
+
+  it("should reject overlapping text_placements", async () => {
+    const result = await mcpClient.callTool({
+      name: "generate_image",
+      arguments: {
+        prompt: "a poster",
+        text_placements: [{ text: "A", placement: "center", width: 90 }, { text: "B", placement: "middle-right" }],
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain("overlaps");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject malformed colors", async () => {
+    const result = await mcpClient.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a poster", colors: ["blue"] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
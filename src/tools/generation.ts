@@ -1,45 +1,113 @@
+import { randomInt } from "node:crypto";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import * as z from "zod/v4";
 import type { RecraftClient } from "../recraft-client.js";
+import { toCallOptions } from "../progress.js";
+import { describePromptLimits, DEFAULT_MODEL, IMAGE_SIZES, IMAGE_STYLES, MAX_PROMPT_LENGTH, RECRAFT_MODELS } from "../models.js";
+import { ALL_SUBSTYLES, findSubstyleIssue } from "../substyles.js";
+import { buildControls, isHexColor } from "../controls.js";
+import { buildTextLayout, findTextLayoutIssues, TEXT_POSITIONS } from "../text-layout.js";
+import { resolveMaskInput } from "../mask.js";
+import type { ServerOptions } from "../server.js";
 import type { GenerateImageResponse } from "../types.js";
-import { toTextResult, toErrorResult } from "../tool-result.js";
-
-const styleEnum = z.enum([
-  "realistic_image",
-  "digital_illustration",
-  "vector_illustration",
-  "icon",
-  "logo_raster",
-]);
+import { toErrorResult } from "../tool-result.js";
+import {
+  resolveImageResultOptions,
+  toDryRunResult,
+  toImageToolResult,
+  type ImageResultOptions,
+} from "../image-result.js";
+import { backgroundShape, withBackground } from "./jobs.js";
+import { maskInputSchema } from "./masks.js";
+
+export const styleEnum = z.enum(IMAGE_STYLES);
+
+export const modelEnum = z.enum(RECRAFT_MODELS);
+
+export const sizeEnum = z.enum(IMAGE_SIZES);
+
+export const substyleEnum = z.enum(ALL_SUBSTYLES);
 
-const modelEnum = z.enum([
-  "recraftv4",
-  "recraftv4_vector",
-  "recraftv3",
-  "recraftv2",
-  "recraft20b",
-  "refm1",
+export const imageFormatEnum = z.enum(["webp", "png"]);
+
+/** Schema refinement rejecting a substyle that does not belong to the chosen style and model. */
+export const checkSubstyle = (
+  value: { model?: z.infer<typeof modelEnum>; style?: z.infer<typeof styleEnum>; substyle?: string },
+  ctx: z.RefinementCtx,
+): void => {
+  if (value.substyle === undefined) return;
+  const issue = findSubstyleIssue(value.model ?? DEFAULT_MODEL, value.style, value.substyle);
+  if (issue) ctx.addIssue({ code: "custom", message: `${issue} Use list_substyles to look them up.`, path: ["substyle"] });
+};
+
+const rgbSchema = z.tuple([
+  z.number().int().min(0).max(255),
+  z.number().int().min(0).max(255),
+  z.number().int().min(0).max(255),
 ]);
 
-const sizeEnum = z.enum([
-  "1024x1024",
-  "1365x1024",
-  "1024x1365",
-  "1536x1024",
-  "1024x1536",
-  "1820x1024",
-  "1024x1820",
-  "1024x2048",
-  "2048x1024",
-  "1434x1024",
-  "1024x1434",
-  "1024x1280",
-  "1280x1024",
-  "1024x1707",
-  "1707x1024",
+export const colorSchema = z.union([
+  z.string().refine(isHexColor, { message: "Use a #RRGGBB or #RGB hex color" }),
+  rgbSchema,
 ]);
 
-const imageFormatEnum = z.enum(["webp", "png"]);
+const pointSchema = z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)]);
+
+export const textLayoutSchema = z.array(z.object({
+  text: z.string().min(1).describe("Text to render."),
+  bbox: z.tuple([pointSchema, pointSchema, pointSchema, pointSchema])
+    .describe("Corners of the text box as [x, y] pairs normalized to 0-1, clockwise from top-left."),
+})).min(1);
+
+export const textPlacementsSchema = z.array(z.object({
+  text: z.string().min(1).describe("Text to render."),
+  placement: z.union([
+    z.enum(TEXT_POSITIONS),
+    z.object({
+      x: z.number().min(0).describe("Left edge."),
+      y: z.number().min(0).describe("Top edge."),
+      width: z.number().positive(),
+      height: z.number().positive(),
+      unit: z.enum(["percent", "px"]).optional().describe("Units of the rectangle. Default: percent of the image."),
+    }),
+  ]).describe("A named position such as 'top-center' or 'bottom-left', or a rectangle in percent or pixels."),
+  width: z.number().positive().max(100).optional().describe("Box width in percent of the image, for named positions. Default: 30."),
+  height: z.number().positive().max(100).optional().describe("Box height in percent of the image, for named positions. Default: 15."),
+})).min(1);
+
+/** Schema refinement checking text placements against the image size and each other. */
+export const checkTextPlacements = (
+  value: { size?: z.infer<typeof sizeEnum>; text_layout?: unknown[]; text_placements?: z.infer<typeof textPlacementsSchema> },
+  ctx: z.RefinementCtx,
+): void => {
+  if (value.text_placements === undefined) return;
+  if (value.text_layout !== undefined) {
+    ctx.addIssue({ code: "custom", message: "Use either text_layout or text_placements, not both.", path: ["text_placements"] });
+    return;
+  }
+  for (const issue of findTextLayoutIssues(value.text_placements, value.size ?? "1024x1024")) {
+    ctx.addIssue({ code: "custom", message: issue, path: ["text_placements"] });
+  }
+};
+
+/** Controls shared by every generation tool. */
+export const controlsShape = {
+  artistic_level: z.number().int().min(0).max(5).optional().describe("Artistic level from 0 (simple) to 5 (dynamic). recraftv3 only."),
+  no_text: z.boolean().optional().describe("Prevent text from appearing in the image."),
+  colors: z.array(z.union([
+    colorSchema,
+    z.object({
+      color: colorSchema,
+      weight: z.number().min(0).max(1).optional().describe("How strongly to use this color, 0-1."),
+    }),
+  ])).min(1).optional().describe(
+    "Color palette to use, as hex strings ('#1A73E8'), [r, g, b] triples, or { color, weight } objects.",
+  ),
+  background_color: colorSchema.optional().describe("Background color as a hex string or [r, g, b] triple."),
+  text_layout: textLayoutSchema.optional().describe("Exact text to render and where to place it. recraftv3 only."),
+};
+
+export const randomSeed = (): number => randomInt(1, 2_147_483_647);
 
 const formatGenerationResponse = (response: GenerateImageResponse): string => {
   const images = response.data.map((img, i) => {
@@ -54,7 +122,51 @@ const formatGenerationResponse = (response: GenerateImageResponse): string => {
   ].join("\n");
 };
 
-export const registerGenerationTools = (server: McpServer, client: RecraftClient): void => {
+export const responseFormatSchema = z.enum(["url", "b64_json"]).optional().describe(
+  "How to return results. url (default) returns links; b64_json also returns the images inline as MCP image content (oversized images fall back to the URL).",
+);
+
+export const dryRunSchema = z.boolean().optional().describe(
+  "Validate the inputs and return the request that would be sent plus the estimated credits, without calling the API.",
+);
+
+export const saveToSchema = z.string().optional().describe(
+  "Directory inside RECRAFT_OUTPUT_DIR to save the output images to; only used when RECRAFT_OUTPUT_DIR is set. Default: RECRAFT_OUTPUT_DIR if set, otherwise images are not saved.",
+);
+
+export const recordHistory = async (
+  options: ServerOptions,
+  tool: string,
+  params: object,
+  response: GenerateImageResponse,
+  replayOf?: string,
+): Promise<void> => {
+  if (!options.history) return;
+  try {
+    await options.history.append(tool, params, response, replayOf);
+  } catch (error) {
+    // The images were already paid for; a ledger failure should not hide them
+    console.error("Failed to write generation history:", error);
+  }
+};
+
+export const toGenerationResult = (response: GenerateImageResponse, options: ImageResultOptions) =>
+  toImageToolResult(
+    formatGenerationResponse(response),
+    {
+      created: response.created,
+      credits: response.credits,
+      data: response.data,
+    } as unknown as Record<string, unknown>,
+    response.data,
+    options,
+  );
+
+export const registerGenerationTools = (
+  server: McpServer,
+  client: RecraftClient,
+  options: ServerOptions = {},
+): void => {
   server.registerTool(
     "generate_image",
     {
@@ -66,49 +178,56 @@ export const registerGenerationTools = (server: McpServer, client: RecraftClient
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        prompt: z.string().min(1).max(10000).describe("Text description of the image to generate. Max 1000 chars for V2/V3, 10000 for V4."),
+        prompt: z.string().min(1).max(MAX_PROMPT_LENGTH).describe(`Text description of the image to generate. Max ${describePromptLimits()}.`),
         model: modelEnum.optional().describe("Model to use. Default: recraftv3."),
         style: styleEnum.optional().describe("Style category. Not supported for V4 models. Default: realistic_image."),
-        substyle: z.string().optional().describe("Substyle to refine the style (e.g. 'b_and_w', 'pixel_art', 'watercolor')."),
+        substyle: substyleEnum.optional().describe("Substyle to refine the style (e.g. 'b_and_w', 'pixel_art', 'hand_drawn'). Must belong to the style; see list_substyles."),
         style_id: z.string().uuid().optional().describe("Custom style ID. Cannot be used together with style/substyle."),
         size: sizeEnum.optional().describe("Image dimensions as WxH. Default: 1024x1024."),
         n: z.number().int().min(1).max(6).optional().describe("Number of images to generate (1-6). Default: 1."),
         negative_prompt: z.string().optional().describe("What to avoid in the generated image."),
-        artistic_level: z.number().int().min(0).max(5).optional().describe("Artistic level from 0 (simple) to 5 (dynamic)."),
-        no_text: z.boolean().optional().describe("Prevent text from appearing in the image."),
+        ...controlsShape,
+        text_placements: textPlacementsSchema.optional().describe(
+          "Text to render with simple placements; the bounding boxes are computed for the chosen size. Alternative to text_layout. recraftv3 only.",
+        ),
         image_format: imageFormatEnum.optional().describe("Output format: webp or png."),
         random_seed: z.number().int().optional().describe("Seed for reproducible results."),
-      }),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
+      }).superRefine(checkSubstyle).superRefine(checkTextPlacements),
     },
-    async ({ prompt, model, style, substyle, style_id, size, n, negative_prompt, artistic_level, no_text, image_format, random_seed }) => {
+    withBackground(server, options, "generate_image", async ({ prompt, model, style, substyle, style_id, size, n, negative_prompt, artistic_level, no_text, colors, background_color, text_layout, text_placements, image_format, random_seed, response_format, save_to, dry_run }, extra) => {
       try {
-        const controls = (artistic_level !== undefined || no_text !== undefined)
-          ? { artistic_level, no_text }
-          : undefined;
-
-        const response = await client.generateImage({
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("generate_image", options, { save_to, image_format, response_format }, call);
+        const params = {
           prompt,
           model,
           style,
-          substyle: substyle as never,
+          substyle,
           style_id,
           size,
           n,
           negative_prompt,
-          controls,
+          controls: buildControls({ artistic_level, no_text, colors, background_color }),
+          text_layout: text_placements ? buildTextLayout(text_placements, size) : text_layout,
           image_format,
-          random_seed,
-        });
+          // A recorded seed is what makes a history entry replayable exactly
+          random_seed: random_seed ?? (options.history ? randomSeed() : undefined),
+        };
 
-        return toTextResult(formatGenerationResponse(response), {
-          created: response.created,
-          credits: response.credits,
-          data: response.data,
-        } as unknown as Record<string, unknown>);
+        if (dry_run) return await toDryRunResult(client, "generate_image", params);
+
+        const response = await client.generateImage(params, call);
+        await recordHistory(options, "generate_image", params, response);
+
+        return await toGenerationResult(response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -117,48 +236,58 @@ export const registerGenerationTools = (server: McpServer, client: RecraftClient
       title: "Image to Image",
       description:
         "Transform an existing image based on a text prompt. The strength parameter controls how much the image changes " +
-        "(0.0 = minimal change, 1.0 = maximum change). Provide the image as a URL or base64-encoded string.",
+        "(0.0 = minimal change, 1.0 = maximum change). Provide the image as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result.",
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        image: z.string().min(1).describe("Source image as a URL or base64-encoded string. Max 5MB, <16MP, max 4096px per side."),
+        image: z.string().min(1).describe("Source image as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result. Max 5MB, <16MP, max 4096px per side."),
         prompt: z.string().min(1).describe("Description of desired changes to the image."),
         strength: z.number().min(0).max(1).describe("Change magnitude from 0.0 (minimal) to 1.0 (maximum)."),
         model: modelEnum.optional().describe("Model to use."),
         style: styleEnum.optional().describe("Style category. Not supported for V4 models."),
-        substyle: z.string().optional().describe("Substyle to refine the style."),
+        substyle: substyleEnum.optional().describe("Substyle to refine the style. Must belong to the style; see list_substyles."),
         style_id: z.string().uuid().optional().describe("Custom style ID."),
         n: z.number().int().min(1).max(6).optional().describe("Number of output images (1-6)."),
         negative_prompt: z.string().optional().describe("What to avoid."),
+        ...controlsShape,
         image_format: imageFormatEnum.optional().describe("Output format."),
         random_seed: z.number().int().optional().describe("Seed for reproducibility."),
-      }),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
+      }).superRefine(checkSubstyle),
     },
-    async ({ image, prompt, strength, model, style, substyle, style_id, n, negative_prompt, image_format, random_seed }) => {
+    withBackground(server, options, "image_to_image", async ({ image, prompt, strength, model, style, substyle, style_id, n, negative_prompt, artistic_level, no_text, colors, background_color, text_layout, image_format, random_seed, response_format, save_to, dry_run }, extra) => {
       try {
-        const response = await client.imageToImage({
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("image_to_image", options, { save_to, image_format, response_format }, call);
+        const params = {
           image,
           prompt,
           strength,
           model,
           style,
-          substyle: substyle as never,
+          substyle,
           style_id,
           n,
           negative_prompt,
+          controls: buildControls({ artistic_level, no_text, colors, background_color }),
+          text_layout,
           image_format,
           random_seed,
-        });
+        };
+
+        if (dry_run) return await toDryRunResult(client, "image_to_image", params);
+
+        const response = await client.imageToImage(params, call);
+        await recordHistory(options, "image_to_image", params, response);
 
-        return toTextResult(formatGenerationResponse(response), {
-          created: response.created,
-          credits: response.credits,
-          data: response.data,
-        } as unknown as Record<string, unknown>);
+        return await toGenerationResult(response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -171,44 +300,54 @@ export const registerGenerationTools = (server: McpServer, client: RecraftClient
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        image: z.string().min(1).describe("Source image as a URL or base64-encoded string."),
-        mask: z.string().min(1).describe("Grayscale PNG mask as a URL or base64-encoded string. White = areas to inpaint, black = areas to preserve."),
+        image: z.string().min(1).describe("Source image as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result."),
+        mask: maskInputSchema.describe("Grayscale PNG mask as a URL, base64-encoded string, local file path, image_id:<id> of an earlier result, or an inline { width, height, shapes } spec (see create_mask). White = areas to inpaint, black = areas to preserve."),
         prompt: z.string().min(1).describe("Description of what to generate in the masked area."),
         model: modelEnum.optional().describe("Model to use."),
         style: styleEnum.optional().describe("Style category."),
-        substyle: z.string().optional().describe("Substyle."),
+        substyle: substyleEnum.optional().describe("Substyle. Must belong to the style; see list_substyles."),
         style_id: z.string().uuid().optional().describe("Custom style ID."),
         n: z.number().int().min(1).max(6).optional().describe("Number of output images (1-6)."),
         negative_prompt: z.string().optional().describe("What to avoid."),
+        ...controlsShape,
         image_format: imageFormatEnum.optional().describe("Output format."),
         random_seed: z.number().int().optional().describe("Seed for reproducibility."),
-      }),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
+      }).superRefine(checkSubstyle),
     },
-    async ({ image, mask, prompt, model, style, substyle, style_id, n, negative_prompt, image_format, random_seed }) => {
+    withBackground(server, options, "inpaint_image", async ({ image, mask, prompt, model, style, substyle, style_id, n, negative_prompt, artistic_level, no_text, colors, background_color, text_layout, image_format, random_seed, response_format, save_to, dry_run }, extra) => {
       try {
-        const response = await client.inpaint({
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("inpaint_image", options, { save_to, image_format, response_format }, call);
+        const params = {
           image,
-          mask,
+          mask: resolveMaskInput(mask),
           prompt,
           model,
           style,
-          substyle: substyle as never,
+          substyle,
           style_id,
           n,
           negative_prompt,
+          controls: buildControls({ artistic_level, no_text, colors, background_color }),
+          text_layout,
           image_format,
           random_seed,
-        });
+        };
+
+        if (dry_run) return await toDryRunResult(client, "inpaint_image", params);
+
+        const response = await client.inpaint(params, call);
+        await recordHistory(options, "inpaint_image", params, response);
 
-        return toTextResult(formatGenerationResponse(response), {
-          created: response.created,
-          credits: response.credits,
-          data: response.data,
-        } as unknown as Record<string, unknown>);
+        return await toGenerationResult(response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -221,42 +360,52 @@ export const registerGenerationTools = (server: McpServer, client: RecraftClient
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        image: z.string().min(1).describe("Source image as a URL or base64-encoded string."),
+        image: z.string().min(1).describe("Source image as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result."),
         prompt: z.string().min(1).describe("Description of the new background."),
         model: modelEnum.optional().describe("Model to use."),
         style: styleEnum.optional().describe("Style category."),
-        substyle: z.string().optional().describe("Substyle."),
+        substyle: substyleEnum.optional().describe("Substyle. Must belong to the style; see list_substyles."),
         style_id: z.string().uuid().optional().describe("Custom style ID."),
         n: z.number().int().min(1).max(6).optional().describe("Number of output images (1-6)."),
         negative_prompt: z.string().optional().describe("What to avoid."),
+        ...controlsShape,
         image_format: imageFormatEnum.optional().describe("Output format."),
         random_seed: z.number().int().optional().describe("Seed for reproducibility."),
-      }),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
+      }).superRefine(checkSubstyle),
     },
-    async ({ image, prompt, model, style, substyle, style_id, n, negative_prompt, image_format, random_seed }) => {
+    withBackground(server, options, "replace_background", async ({ image, prompt, model, style, substyle, style_id, n, negative_prompt, artistic_level, no_text, colors, background_color, text_layout, image_format, random_seed, response_format, save_to, dry_run }, extra) => {
       try {
-        const response = await client.replaceBackground({
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("replace_background", options, { save_to, image_format, response_format }, call);
+        const params = {
           image,
           prompt,
           model,
           style,
-          substyle: substyle as never,
+          substyle,
           style_id,
           n,
           negative_prompt,
+          controls: buildControls({ artistic_level, no_text, colors, background_color }),
+          text_layout,
           image_format,
           random_seed,
-        });
+        };
+
+        if (dry_run) return await toDryRunResult(client, "replace_background", params);
 
-        return toTextResult(formatGenerationResponse(response), {
-          created: response.created,
-          credits: response.credits,
-          data: response.data,
-        } as unknown as Record<string, unknown>);
+        const response = await client.replaceBackground(params, call);
+        await recordHistory(options, "replace_background", params, response);
+
+        return await toGenerationResult(response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -269,43 +418,53 @@ export const registerGenerationTools = (server: McpServer, client: RecraftClient
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        image: z.string().min(1).describe("Source image as a URL or base64-encoded string."),
-        mask: z.string().min(1).describe("Mask defining the background area as a URL or base64-encoded string."),
+        image: z.string().min(1).describe("Source image as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result."),
+        mask: maskInputSchema.describe("Mask defining the background area as a URL, base64-encoded string, local file path, image_id:<id> of an earlier result, or an inline { width, height, shapes } spec (see create_mask)."),
         prompt: z.string().min(1).describe("Description of the background to generate."),
         model: modelEnum.optional().describe("Model to use."),
         style: styleEnum.optional().describe("Style category."),
-        substyle: z.string().optional().describe("Substyle."),
+        substyle: substyleEnum.optional().describe("Substyle. Must belong to the style; see list_substyles."),
         style_id: z.string().uuid().optional().describe("Custom style ID."),
         n: z.number().int().min(1).max(6).optional().describe("Number of output images (1-6)."),
         negative_prompt: z.string().optional().describe("What to avoid."),
+        ...controlsShape,
         image_format: imageFormatEnum.optional().describe("Output format."),
         random_seed: z.number().int().optional().describe("Seed for reproducibility."),
-      }),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
+      }).superRefine(checkSubstyle),
     },
-    async ({ image, mask, prompt, model, style, substyle, style_id, n, negative_prompt, image_format, random_seed }) => {
+    withBackground(server, options, "generate_background", async ({ image, mask, prompt, model, style, substyle, style_id, n, negative_prompt, artistic_level, no_text, colors, background_color, text_layout, image_format, random_seed, response_format, save_to, dry_run }, extra) => {
       try {
-        const response = await client.generateBackground({
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("generate_background", options, { save_to, image_format, response_format }, call);
+        const params = {
           image,
-          mask,
+          mask: resolveMaskInput(mask),
           prompt,
           model,
           style,
-          substyle: substyle as never,
+          substyle,
           style_id,
           n,
           negative_prompt,
+          controls: buildControls({ artistic_level, no_text, colors, background_color }),
+          text_layout,
           image_format,
           random_seed,
-        });
+        };
+
+        if (dry_run) return await toDryRunResult(client, "generate_background", params);
 
-        return toTextResult(formatGenerationResponse(response), {
-          created: response.created,
-          credits: response.credits,
-          data: response.data,
-        } as unknown as Record<string, unknown>);
+        const response = await client.generateBackground(params, call);
+        await recordHistory(options, "generate_background", params, response);
+
+        return await toGenerationResult(response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 };
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { HistoryLedger } from "../history.js";
+import { connectServer, generationResponse, testClient } from "../test-utils.js";
+import { registerGenerationTools } from "./generation.js";
+import { registerHistoryTools } from "./history.js";
+
+describe("history tools", () => {
+  let dir: string;
+  let history: HistoryLedger;
+  let mcpClient: Client;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "recraft-history-tools-"));
+    history = new HistoryLedger(join(dir, "history.jsonl"));
+    vi.stubGlobal("fetch", vi.fn());
+
+    const client = testClient();
+    mcpClient = await connectServer((server) => {
+      registerGenerationTools(server, client, { history });
+      registerHistoryTools(server, client, { history });
+    });
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    await rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const sentBody = (call: number) =>
+    JSON.parse(vi.mocked(fetch).mock.calls[call][1]?.body as string) as Record<string, unknown>;
+
+  it("should record generate_image calls with a seed", async () => {
+    vi.mocked(fetch).mockResolvedValue(generationResponse("a"));
+
+    await mcpClient.callTool({ name: "generate_image", arguments: { prompt: "a cat", model: "recraftv3" } });
+
+    const [entry] = await history.list();
+    expect(entry).toMatchObject({ tool: "generate_image", credits: 40, image_ids: ["a"] });
+    expect(entry.params.random_seed).toBe(sentBody(0).random_seed);
+    expect(typeof entry.params.random_seed).toBe("number");
+  });
+
+  it("should replay the exact recorded request", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(generationResponse("a")).mockResolvedValueOnce(generationResponse("b"));
+
+    await mcpClient.callTool({ name: "generate_image", arguments: { prompt: "a cat", random_seed: 42 } });
+    const [original] = await history.list();
+
+    const result = await mcpClient.callTool({ name: "replay_generation", arguments: { entry_id: original.id } });
+
+    expect(result.isError).toBeFalsy();
+    expect(sentBody(1)).toEqual(sentBody(0));
+    const [replay] = await history.list();
+    expect(replay.replay_of).toBe(original.id);
+  });
+
+  it("should apply overrides and keep style and style_id exclusive", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(generationResponse("a")).mockResolvedValueOnce(generationResponse("b"));
+
+    await mcpClient.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a cat", style: "digital_illustration", substyle: "pixel_art", random_seed: 1 },
+    });
+    const [original] = await history.list();
+
+    await mcpClient.callTool({
+      name: "replay_generation",
+      arguments: {
+        entry_id: original.id,
+        overrides: { style_id: "1b2c3d4e-1111-4222-8333-444455556666", random_seed: 2, no_text: true },
+      },
+    });
+
+    expect(sentBody(1)).toEqual({
+      prompt: "a cat",
+      style_id: "1b2c3d4e-1111-4222-8333-444455556666",
+      random_seed: 2,
+      controls: { no_text: true },
+    });
+  });
+
+  it("should drop the recorded substyle on a style override and merge control overrides", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(generationResponse("a")).mockResolvedValueOnce(generationResponse("b"));
+
+    await mcpClient.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a cat", style: "digital_illustration", substyle: "pixel_art", no_text: true, random_seed: 1 },
+    });
+    const [original] = await history.list();
+
+    const result = await mcpClient.callTool({
+      name: "replay_generation",
+      arguments: {
+        entry_id: original.id,
+        overrides: { style: "realistic_image", colors: ["#ff0000"], background_color: [0, 0, 255] },
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(sentBody(1)).toEqual({
+      prompt: "a cat",
+      style: "realistic_image",
+      random_seed: 1,
+      controls: { no_text: true, colors: [{ rgb: [255, 0, 0] }], background_color: { rgb: [0, 0, 255] } },
+    });
+  });
+
+  it("should report unknown entries", async () => {
+    const result = await mcpClient.callTool({
+      name: "get_history_entry",
+      arguments: { entry_id: "1b2c3d4e-1111-4222-8333-444455556666" },
+    });
+
+    expect(result.isError).toBe(true);
+  });
+});
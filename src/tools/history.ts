@@ -0,0 +1,181 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod/v4";
+import type { RecraftClient } from "../recraft-client.js";
+import { buildControls } from "../controls.js";
+import { toCallOptions } from "../progress.js";
+import type { ServerOptions } from "../server.js";
+import type { HistoryEntry } from "../history.js";
+import type { GenerateImageParams } from "../types.js";
+import { toTextResult, toErrorResult } from "../tool-result.js";
+import { resolveImageResultOptions } from "../image-result.js";
+import { MAX_PROMPT_LENGTH } from "../models.js";
+import {
+  controlsShape,
+  imageFormatEnum,
+  modelEnum,
+  recordHistory,
+  responseFormatSchema,
+  saveToSchema,
+  sizeEnum,
+  styleEnum,
+  substyleEnum,
+  toGenerationResult,
+} from "./generation.js";
+
+const formatEntry = (entry: HistoryEntry): string => {
+  const params = entry.params;
+  const details = [params.model, params.style_id ?? params.style, params.size, params.random_seed !== undefined ? `seed ${params.random_seed}` : null]
+    .filter(Boolean)
+    .join(", ");
+
+  return [
+    `  - ${entry.id} (${entry.timestamp})`,
+    `    ${entry.tool}${details ? ` [${details}]` : ""}, ${entry.credits} credits, ${entry.image_ids.length} image${entry.image_ids.length !== 1 ? "s" : ""}`,
+    typeof params.prompt === "string" ? `    Prompt: ${params.prompt}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+export const registerHistoryTools = (
+  server: McpServer,
+  client: RecraftClient,
+  options: ServerOptions = {},
+): void => {
+  const history = options.history;
+  if (!history) return;
+
+  server.registerTool(
+    "list_history",
+    {
+      title: "List Generation History",
+      description:
+        "List recorded generation requests from the persistent history ledger, newest first. " +
+        "Each entry includes the prompt, model, style, size, seed, credits and returned image IDs.",
+      annotations: { readOnlyHint: true, openWorldHint: false },
+
+      inputSchema: z.object({
+        limit: z.number().int().min(1).max(100).optional().describe("Maximum number of entries to return (1-100). Default: 20."),
+        tool: z.string().optional().describe("Only return entries produced by this tool (e.g. 'generate_image')."),
+      }),
+    },
+    async ({ limit, tool }) => {
+      try {
+        const entries = await history.list({ limit: limit ?? 20, tool });
+
+        if (entries.length === 0) {
+          return toTextResult("No generation history recorded yet.");
+        }
+
+        return toTextResult(
+          [`Found ${entries.length} history entr${entries.length !== 1 ? "ies" : "y"}`, ...entries.map(formatEntry)].join("\n"),
+          { entries } as unknown as Record<string, unknown>,
+        );
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_history_entry",
+    {
+      title: "Get History Entry",
+      description: "Retrieve a single generation history entry by ID, including the full request parameters.",
+      annotations: { readOnlyHint: true, openWorldHint: false },
+
+      inputSchema: z.object({
+        entry_id: z.string().uuid().describe("The history entry ID."),
+      }),
+    },
+    async ({ entry_id }) => {
+      try {
+        const entry = await history.get(entry_id);
+        if (!entry) {
+          return toErrorResult(new Error(`History entry ${entry_id} not found. Use list_history to see recorded entries.`));
+        }
+
+        return toTextResult(
+          [formatEntry(entry), `  Parameters: ${JSON.stringify(entry.params, null, 2)}`].join("\n"),
+          entry as unknown as Record<string, unknown>,
+        );
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+
+  server.registerTool(
+    "replay_generation",
+    {
+      title: "Replay Generation",
+      description:
+        "Re-run a recorded generate_image request. Without overrides the exact recorded parameters are sent again, " +
+        "including the random seed. Overrides replace individual parameters; setting style clears style_id and vice versa, " +
+        "and a new style drops the recorded substyle unless one is given. Control overrides merge into the recorded controls.",
+      annotations: { readOnlyHint: false, openWorldHint: true },
+
+      inputSchema: z.object({
+        entry_id: z.string().uuid().describe("The history entry ID to replay."),
+        overrides: z.object({
+          prompt: z.string().min(1).max(MAX_PROMPT_LENGTH).optional(),
+          model: modelEnum.optional(),
+          style: styleEnum.optional(),
+          substyle: substyleEnum.optional(),
+          style_id: z.string().uuid().optional(),
+          size: sizeEnum.optional(),
+          n: z.number().int().min(1).max(6).optional(),
+          negative_prompt: z.string().optional(),
+          ...controlsShape,
+          image_format: imageFormatEnum.optional(),
+          random_seed: z.number().int().optional(),
+        }).optional().describe("Parameters to change for this run. Omit to replay exactly."),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+      }),
+    },
+    async ({ entry_id, overrides, response_format, save_to }, extra) => {
+      try {
+        const call = toCallOptions(extra);
+        const entry = await history.get(entry_id);
+        if (!entry) {
+          return toErrorResult(new Error(`History entry ${entry_id} not found. Use list_history to see recorded entries.`));
+        }
+        if (entry.tool !== "generate_image") {
+          return toErrorResult(new Error(
+            `Only generate_image entries can be replayed; entry ${entry_id} was produced by ${entry.tool}, whose source images are not recorded.`,
+          ));
+        }
+
+        const { artistic_level, no_text, colors, background_color, ...rest } = overrides ?? {};
+        const params = { ...entry.params } as unknown as GenerateImageParams;
+
+        for (const [key, value] of Object.entries(rest)) {
+          if (value !== undefined) (params as unknown as Record<string, unknown>)[key] = value;
+        }
+        if (rest.style_id !== undefined) {
+          delete params.style;
+          delete params.substyle;
+        } else if (rest.style !== undefined) {
+          delete params.style_id;
+          // The recorded substyle belongs to the recorded style
+          if (rest.substyle === undefined) delete params.substyle;
+        }
+        const controls = buildControls({ artistic_level, no_text, colors, background_color });
+        if (controls) params.controls = { ...params.controls, ...controls };
+
+        const resultOptions = resolveImageResultOptions("replay_generation", options, {
+          save_to,
+          image_format: params.image_format,
+          response_format,
+        }, call);
+        const response = await client.generateImage(params, call);
+        await recordHistory(options, "generate_image", params, response, entry.id);
+
+        return await toGenerationResult(response, resultOptions);
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+};
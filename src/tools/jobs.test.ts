@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { LoggingMessageNotificationSchema, type LoggingMessageNotification } from "@modelcontextprotocol/sdk/types.js";
+import { JobQueue } from "../jobs.js";
+import { connectServer, generationResponse, resultText as text, testClient } from "../test-utils.js";
+import { registerGenerationTools } from "./generation.js";
+import { registerJobTools } from "./jobs.js";
+
+describe("background jobs", () => {
+  let mcpClient: Client;
+  let jobs: JobQueue;
+  let logs: LoggingMessageNotification["params"][];
+
+  const connect = async (queue?: JobQueue) => {
+    const client = testClient();
+    mcpClient = await connectServer((server) => {
+      registerGenerationTools(server, client, { jobs: queue });
+      registerJobTools(server, client, { jobs: queue });
+    }, { logging: {} });
+    mcpClient.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      logs.push(notification.params);
+    });
+  };
+
+  beforeEach(async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    vi.mocked(fetch).mockResolvedValue(generationResponse());
+    logs = [];
+    jobs = new JobQueue();
+    await connect(jobs);
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    vi.restoreAllMocks();
+  });
+
+  const startJob = async (args: Record<string, unknown> = {}): Promise<string> => {
+    const result = await mcpClient.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox", background: true, ...args },
+    });
+    expect(result.isError).toBeFalsy();
+    return (result.structuredContent as { job_id: string }).job_id;
+  };
+
+  it("should return a job ID and make the result available through get_job", async () => {
+    const jobId = await startJob();
+
+    await vi.waitFor(async () => expect((await jobs.get(jobId))?.status).toBe("succeeded"));
+    const result = await mcpClient.callTool({ name: "get_job", arguments: { job_id: jobId } });
+
+    expect(text(result)).toContain(`Job ${jobId}: generate_image, succeeded`);
+    expect(text(result)).toContain("https://img.test/a");
+    expect(result.structuredContent).toMatchObject({ status: "succeeded", result: { structuredContent: { credits: 40 } } });
+  });
+
+  it("should list jobs and cancel unfinished ones", async () => {
+    vi.mocked(fetch).mockImplementation((_url, init) =>
+      new Promise((_, reject) => init?.signal?.addEventListener("abort", () => reject(init.signal?.reason))));
+    const jobId = await startJob();
+
+    const listed = await mcpClient.callTool({ name: "list_jobs", arguments: {} });
+    expect(text(listed)).toContain(jobId);
+
+    const cancelled = await mcpClient.callTool({ name: "cancel_job", arguments: { job_id: jobId } });
+    expect(text(cancelled)).toContain(`Cancelled job ${jobId}`);
+    expect((await jobs.get(jobId))?.status).toBe("cancelled");
+  });
+
+  it("should send a log notification on completion when asked", async () => {
+    const jobId = await startJob({ notify: true });
+
+    await vi.waitFor(() => expect(logs).toHaveLength(1));
+    expect(logs[0]).toMatchObject({ level: "info", logger: "recraft-jobs", data: { job_id: jobId, status: "succeeded" } });
+  });
+
+  it("should answer dry runs directly", async () => {
+    const result = await mcpClient.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox", background: true, dry_run: true },
+    });
+
+    expect(text(result)).toContain("Dry run");
+    expect(await jobs.list()).toEqual([]);
+  });
+
+  it("should refuse background calls when no queue is configured", async () => {
+    await mcpClient.close();
+    await connect(undefined);
+
+    const result = await mcpClient.callTool({ name: "generate_image", arguments: { prompt: "a fox", background: true } });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("Background jobs are not enabled");
+  });
+
+  it("should report unknown jobs", async () => {
+    const result = await mcpClient.callTool({ name: "get_job", arguments: { job_id: "nope" } });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("Unknown job: nope");
+  });
+});
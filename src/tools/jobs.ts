@@ -0,0 +1,185 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod/v4";
+import { isFinished, JOB_STATUSES, type Job, type JobResult } from "../jobs.js";
+import type { ToolExtra } from "../progress.js";
+import type { RecraftClient } from "../recraft-client.js";
+import type { ServerOptions } from "../server.js";
+import { toErrorResult, toTextResult } from "../tool-result.js";
+
+/** Parameters that let a tool call run as a background job. */
+export const backgroundShape = {
+  background: z.boolean().optional().describe(
+    "Run as a background job: return a job ID right away instead of waiting. Use get_job to fetch the result.",
+  ),
+  notify: z.boolean().optional().describe(
+    "With background, send a notifications/message log entry to this session when the job finishes.",
+  ),
+};
+
+interface BackgroundArgs {
+  background?: boolean;
+  notify?: boolean;
+  dry_run?: boolean;
+}
+
+interface ToolOutput {
+  content: Array<{ type: string; text?: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+// Inline image data is dropped; job results keep the URLs and any saved paths
+const toJobResult = (output: ToolOutput): JobResult => {
+  const text = output.content.filter((block) => block.type === "text").map((block) => block.text ?? "").join("\n");
+  const images = output.content.filter((block) => block.type === "image").length;
+
+  return {
+    text: images > 0 ? `${text}\n  ${images} inline image(s) omitted from the job result; use the URLs or save_to.` : text,
+    ...(output.structuredContent ? { structuredContent: output.structuredContent } : {}),
+    ...(output.isError ? { isError: true } : {}),
+  };
+};
+
+const notifyWhenFinished = (server: McpServer, options: ServerOptions, jobId: string): void => {
+  const unsubscribe = options.jobs?.onChange((job) => {
+    if (job.job_id !== jobId || !isFinished(job)) return;
+    unsubscribe?.();
+    if (!server.isConnected()) return;
+    server
+      .sendLoggingMessage({
+        level: job.status === "succeeded" ? "info" : "warning",
+        logger: "recraft-jobs",
+        data: { job_id: job.job_id, tool: job.tool, status: job.status, message: `Job ${job.job_id} (${job.tool}) ${job.status}` },
+      })
+      .catch(() => {
+        // Notifications are best-effort; the result stays available through get_job
+      });
+  });
+};
+
+/**
+ * Wrap a tool handler so `background: true` starts it as a job and returns
+ * the job ID instead of the result. Dry runs always answer directly.
+ */
+export const withBackground = <A extends BackgroundArgs, R extends ToolOutput>(
+  server: McpServer,
+  options: ServerOptions,
+  tool: string,
+  handler: (args: A, extra: ToolExtra) => Promise<R>,
+) => async (args: A, extra: ToolExtra) => {
+  if (!args.background || args.dry_run) return handler(args, extra);
+
+  const jobs = options.jobs;
+  if (!jobs) return toErrorResult(new Error("Background jobs are not enabled on this server. Call the tool without background."));
+
+  try {
+    const job = await jobs.start(tool, async (signal) =>
+      toJobResult(await handler({ ...args, background: false }, { ...extra, signal, _meta: undefined })));
+    if (args.notify) notifyWhenFinished(server, options, job.job_id);
+
+    return toTextResult(
+      `Started ${tool} as background job ${job.job_id}. Use get_job to check on it or cancel_job to stop it.`,
+      { job_id: job.job_id, tool, status: job.status },
+    );
+  } catch (error) {
+    return toErrorResult(error);
+  }
+};
+
+const formatJob = (job: Job): string =>
+  [
+    `  - ${job.job_id}: ${job.tool}, ${job.status}`,
+    `    Created ${job.created}${job.finished ? `, finished ${job.finished}` : job.started ? `, started ${job.started}` : ""}`,
+  ].join("\n");
+
+export const registerJobTools = (
+  server: McpServer,
+  _client: RecraftClient,
+  options: ServerOptions = {},
+): void => {
+  const jobs = options.jobs;
+  if (!jobs) return;
+
+  server.registerTool(
+    "get_job",
+    {
+      title: "Get Job",
+      description: "Get the status of a background job and, once it has finished, the result of the tool call it ran.",
+      annotations: { readOnlyHint: true, openWorldHint: false },
+
+      inputSchema: z.object({
+        job_id: z.string().min(1).describe("Job ID returned by a tool called with background: true."),
+      }),
+    },
+    async ({ job_id }) => {
+      try {
+        const job = await jobs.get(job_id);
+        if (!job) return toErrorResult(new Error(`Unknown job: ${job_id}. Use list_jobs to see known jobs.`));
+
+        const lines = [`Job ${job.job_id}: ${job.tool}, ${job.status}`];
+        if (job.result) lines.push("", job.result.text);
+        else if (job.error) lines.push("", job.error);
+        else lines.push("Not finished yet; check again shortly.");
+
+        return toTextResult(lines.join("\n"), { ...job } as unknown as Record<string, unknown>);
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+
+  server.registerTool(
+    "list_jobs",
+    {
+      title: "List Jobs",
+      description: "List background jobs, newest first, with their status.",
+      annotations: { readOnlyHint: true, openWorldHint: false },
+
+      inputSchema: z.object({
+        status: z.enum(JOB_STATUSES).optional().describe("Only return jobs in this state."),
+        tool: z.string().optional().describe("Only return jobs running this tool (e.g. 'creative_upscale')."),
+        limit: z.number().int().min(1).max(100).optional().describe("Maximum number of jobs to return (1-100). Default: 20."),
+      }),
+    },
+    async ({ status, tool, limit }) => {
+      try {
+        const found = await jobs.list({ status, tool, limit: limit ?? 20 });
+        if (found.length === 0) return toTextResult("No background jobs found.");
+
+        return toTextResult(
+          [`Found ${found.length} job${found.length !== 1 ? "s" : ""}`, ...found.map(formatJob)].join("\n"),
+          { jobs: found.map(({ result: _result, ...job }) => job) } as unknown as Record<string, unknown>,
+        );
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+
+  server.registerTool(
+    "cancel_job",
+    {
+      title: "Cancel Job",
+      description:
+        "Cancel a queued or running background job. A request Recraft has already accepted may still be charged.",
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+
+      inputSchema: z.object({
+        job_id: z.string().min(1).describe("Job ID to cancel."),
+      }),
+    },
+    async ({ job_id }) => {
+      try {
+        const job = await jobs.cancel(job_id);
+        if (!job) return toErrorResult(new Error(`Unknown job: ${job_id}. Use list_jobs to see known jobs.`));
+
+        const text = job.status === "cancelled"
+          ? `Cancelled job ${job.job_id} (${job.tool}).`
+          : `Job ${job.job_id} already ${job.status}; nothing to cancel.`;
+        return toTextResult(text, { job_id: job.job_id, status: job.status });
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+};
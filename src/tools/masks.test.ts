@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { RecraftClient } from "../recraft-client.js";
+import { connectServer, PNG_BASE64, processResponse, testClient } from "../test-utils.js";
+import { detectImageType } from "../image-format.js";
+import { registerProcessingTools } from "./processing.js";
+import { registerMaskTools } from "./masks.js";
+
+const quarter = { width: 64, height: 64, shapes: [{ shape: "rect", x: 50, y: 0, width: 50, height: 50 }] };
+
+describe("mask tools", () => {
+  let mcpClient: Client;
+  let client: RecraftClient;
+
+  beforeEach(async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    vi.mocked(fetch).mockResolvedValue(processResponse("erased"));
+
+    client = testClient();
+    mcpClient = await connectServer((server) => {
+      registerProcessingTools(server, client);
+      registerMaskTools(server, client);
+    });
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    vi.restoreAllMocks();
+  });
+
+  const maskSent = async (): Promise<Uint8Array> => {
+    const form = vi.mocked(fetch).mock.calls[0][1]?.body as FormData;
+    return new Uint8Array(await (form.get("mask") as Blob).arrayBuffer());
+  };
+
+  it("should create a mask that later calls can reference by image_id", async () => {
+    const created = await mcpClient.callTool({ name: "create_mask", arguments: { ...quarter, response_format: "b64_json" } });
+
+    expect(created.isError).toBeFalsy();
+    const { image_id, selected_percent } = created.structuredContent as { image_id: string; selected_percent: number };
+    expect(selected_percent).toBe(25);
+    expect(client.images.get(image_id)?.operation).toBe("create_mask");
+    expect(created.content).toContainEqual(expect.objectContaining({ type: "image", mimeType: "image/png" }));
+    expect(fetch).not.toHaveBeenCalled();
+
+    const erased = await mcpClient.callTool({
+      name: "erase_region",
+      arguments: { image: PNG_BASE64, mask: `image_id:${image_id}` },
+    });
+
+    expect(erased.isError).toBeFalsy();
+    expect(Buffer.from(await maskSent()).toString("base64")).toBe(client.images.get(image_id)?.b64_json);
+  });
+
+  it("should render an inline mask spec passed to erase_region", async () => {
+    const result = await mcpClient.callTool({ name: "erase_region", arguments: { image: PNG_BASE64, mask: quarter } });
+
+    expect(result.isError).toBeFalsy();
+    expect(detectImageType(await maskSent())?.mimeType).toBe("image/png");
+  });
+
+  it("should reject shapes outside the mask", async () => {
+    const result = await mcpClient.callTool({
+      name: "create_mask",
+      arguments: { width: 64, height: 64, shapes: [{ shape: "ellipse", x: 100, y: 100, width: 10, height: 10 }] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain("lies entirely outside the 64x64 mask");
+  });
+});
@@ -0,0 +1,101 @@
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod/v4";
+import { encodeGrayscalePng, findMaskIssues, MAX_MASK_DIMENSION, renderMask, type MaskSpec } from "../mask.js";
+import type { RecraftClient } from "../recraft-client.js";
+import type { ServerOptions } from "../server.js";
+import { toErrorResult } from "../tool-result.js";
+import { resolveImageResultOptions, toImageToolResult } from "../image-result.js";
+
+const boxSchema = <T extends "rect" | "ellipse">(shape: T) =>
+  z.object({
+    shape: z.literal(shape),
+    x: z.number().describe("Left edge of the bounding box."),
+    y: z.number().describe("Top edge of the bounding box."),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  });
+
+const maskShapeSchema = z.discriminatedUnion("shape", [
+  boxSchema("rect"),
+  boxSchema("ellipse"),
+  z.object({
+    shape: z.literal("polygon"),
+    points: z.array(z.tuple([z.number(), z.number()])).min(3).max(100).describe("Corners as [x, y] pairs, in order."),
+  }),
+]);
+
+/** Fields of an inline mask spec, shared by create_mask and the mask parameter of the masked tools. */
+const maskSpecShape = {
+  width: z.number().int().min(1).max(MAX_MASK_DIMENSION).describe("Mask width in pixels; must match the source image."),
+  height: z.number().int().min(1).max(MAX_MASK_DIMENSION).describe("Mask height in pixels; must match the source image."),
+  shapes: z.array(maskShapeSchema).min(1).max(50).describe(
+    "Areas to select (white): { shape: 'rect' | 'ellipse', x, y, width, height } boxes or { shape: 'polygon', points }.",
+  ),
+  unit: z.enum(["percent", "px"]).optional().describe("Units of the shape coordinates. Default: percent of the mask."),
+  feather: z.number().min(0).max(512).optional().describe("Soft edge width in pixels around each shape. Default: 0 (hard edges)."),
+  invert: z.boolean().optional().describe("Select everything outside the shapes instead."),
+};
+
+/** Schema refinement rejecting shapes that would leave the mask empty. */
+const checkMaskSpec = (value: MaskSpec, ctx: z.RefinementCtx): void => {
+  for (const issue of findMaskIssues(value)) ctx.addIssue({ code: "custom", message: issue, path: ["shapes"] });
+};
+
+export const maskSpecSchema = z.object(maskSpecShape).superRefine(checkMaskSpec);
+
+/** A mask parameter: an image input, or a spec rendered to a PNG in-process. */
+export const maskInputSchema = z.union([z.string().min(1), maskSpecSchema]);
+
+export const registerMaskTools = (
+  server: McpServer,
+  client: RecraftClient,
+  options: ServerOptions = {},
+): void => {
+  server.registerTool(
+    "create_mask",
+    {
+      title: "Create Mask",
+      description:
+        "Draw a grayscale PNG mask for inpaint_image, erase_region or generate_background from rectangles, ellipses " +
+        "and polygons, with optional feathered edges and inversion. Coordinates are in percent of the mask by default, " +
+        "so 'the top-right quarter' is a rect at x 50, y 0, width 50, height 50. Runs locally and uses no credits; " +
+        "pass the returned image_id:<id> as the mask.",
+      annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+
+      inputSchema: z.object({
+        ...maskSpecShape,
+        response_format: z.enum(["url", "b64_json"]).optional().describe(
+          "b64_json also returns the mask inline as MCP image content. Default: ID only.",
+        ),
+        save_to: z.string().optional().describe(
+          "Directory inside RECRAFT_OUTPUT_DIR to save the mask to. Default: RECRAFT_OUTPUT_DIR if set.",
+        ),
+      }).superRefine(checkMaskSpec),
+    },
+    async ({ response_format, save_to, ...spec }) => {
+      try {
+        const pixels = renderMask(spec);
+        const image = {
+          image_id: randomUUID(),
+          b64_json: encodeGrayscalePng(spec.width, spec.height, pixels).toString("base64"),
+        };
+        client.images.record("create_mask", [image]);
+
+        const selected = Math.round((pixels.reduce((sum, value) => sum + value, 0) / (255 * pixels.length)) * 1000) / 10;
+        return await toImageToolResult(
+          [
+            `Created ${spec.width}x${spec.height} mask (${selected}% selected)`,
+            `  ID: ${image.image_id}`,
+            `  Pass mask: "image_id:${image.image_id}" to inpaint_image, erase_region or generate_background.`,
+          ].join("\n"),
+          { image_id: image.image_id, width: spec.width, height: spec.height, selected_percent: selected },
+          [image],
+          resolveImageResultOptions("create_mask", options, { save_to, image_format: "png", response_format }),
+        );
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { connectServer, testClient } from "../test-utils.js";
+import { registerGenerationTools } from "./generation.js";
+import { registerModelTools } from "./models.js";
+
+describe("model tools", () => {
+  let mcpClient: Client;
+
+  beforeEach(async () => {
+    vi.stubGlobal("fetch", vi.fn());
+
+    const client = testClient();
+    mcpClient = await connectServer((server) => {
+      registerGenerationTools(server, client);
+      registerModelTools(server);
+    });
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    vi.restoreAllMocks();
+  });
+
+  const text = (result: Awaited<ReturnType<Client["callTool"]>>): string =>
+    (result.content as Array<{ text: string }>)[0].text;
+
+  it("should list every model's capabilities", async () => {
+    const result = await mcpClient.callTool({ name: "list_models", arguments: {} });
+    const { models } = result.structuredContent as { models: Array<{ model: string }> };
+
+    expect(models.map((m) => m.model)).toContain("recraftv4_vector");
+    expect(text(result)).toContain("recraftv3 (default)");
+  });
+
+  it("should list substyles for a style and model", async () => {
+    const v3 = await mcpClient.callTool({ name: "list_substyles", arguments: { style: "logo_raster" } });
+    expect(v3.structuredContent).toMatchObject({ model: "recraftv3", substyles: expect.arrayContaining(["emblem_stamp"]) });
+
+    const v2 = await mcpClient.callTool({ name: "list_substyles", arguments: { style: "logo_raster", model: "recraftv2" } });
+    expect(text(v2)).toBe("recraftv2 does not support the logo_raster style.");
+  });
+
+  it("should reject a substyle from another style before calling the API", async () => {
+    const result = await mcpClient.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a cat", style: "icon", substyle: "pixel_art" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("Substyle pixel_art does not belong to icon on recraftv3");
+    expect(text(result)).toContain("broken_line");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown substyles", async () => {
+    const result = await mcpClient.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a cat", style: "icon", substyle: "not_a_substyle" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod/v4";
+import { DEFAULT_MODEL, MODEL_CAPABILITIES, RECRAFT_MODELS, type ModelCapabilities } from "../models.js";
+import { toTextResult, toErrorResult } from "../tool-result.js";
+import { substylesFor } from "../substyles.js";
+import { modelEnum, styleEnum } from "./generation.js";
+
+const formatModel = (caps: ModelCapabilities): string =>
+  [
+    `${caps.model}${caps.model === DEFAULT_MODEL ? " (default)" : ""}: ${caps.description}`,
+    `  Output: ${caps.output === "vector" ? "vector (SVG)" : "raster; vector with vector_illustration or icon styles"}`,
+    `  Styles: ${caps.styles.length > 0 ? caps.styles.join(", ") : "none (use the prompt)"}`,
+    `  Custom styles (style_id): ${caps.customStyles ? "yes" : "no"}`,
+    `  Max prompt length: ${caps.maxPromptLength} characters`,
+    `  Controls: ${caps.controls.length > 0 ? caps.controls.join(", ") : "none"}`,
+    `  Text layout: ${caps.textLayout ? "yes" : "no"}`,
+    `  Sizes: ${caps.sizes.join(", ")}`,
+  ].join("\n");
+
+export const registerModelTools = (server: McpServer): void => {
+  server.registerTool(
+    "list_models",
+    {
+      title: "List Models",
+      description:
+        "List the Recraft models with what each supports: styles, custom styles, sizes, prompt length, vector output, " +
+        "controls and text layout. Generation requests that break these rules are rejected before reaching the API.",
+      annotations: { readOnlyHint: true, openWorldHint: false },
+
+      inputSchema: z.object({
+        model: modelEnum.optional().describe("Only show this model."),
+      }),
+    },
+    async ({ model }) => {
+      try {
+        const models = (model ? [model] : RECRAFT_MODELS).map((m) => MODEL_CAPABILITIES[m]);
+        return toTextResult(
+          models.map(formatModel).join("\n\n"),
+          { models } as unknown as Record<string, unknown>,
+        );
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+
+  server.registerTool(
+    "list_substyles",
+    {
+      title: "List Substyles",
+      description:
+        "List the substyles that can refine a style on a given model. Generation tools reject a substyle that does not belong to the chosen style and model.",
+      annotations: { readOnlyHint: true, openWorldHint: false },
+
+      inputSchema: z.object({
+        style: styleEnum.describe("Style to list substyles for."),
+        model: modelEnum.optional().describe(`Model the substyle will be used with. Default: ${DEFAULT_MODEL}.`),
+      }),
+    },
+    async ({ style, model }) => {
+      try {
+        const resolvedModel = model ?? DEFAULT_MODEL;
+        const substyles = substylesFor(resolvedModel, style);
+        const text = substyles.length > 0
+          ? `${substyles.length} substyles for ${style} on ${resolvedModel}:\n${substyles.map((s) => `  - ${s}`).join("\n")}`
+          : MODEL_CAPABILITIES[resolvedModel].styles.includes(style)
+            ? `${style} has no substyles on ${resolvedModel}.`
+            : `${resolvedModel} does not support the ${style} style.`;
+
+        return toTextResult(text, { style, model: resolvedModel, substyles: [...substyles] });
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { CreditBudget } from "../budget.js";
+import { connectServer, generationResponse, jsonResponse, resultText as text, testClient } from "../test-utils.js";
+import { registerPipelineTools } from "./pipeline.js";
+
+describe("run_pipeline tool", () => {
+  let mcpClient: Client;
+
+  beforeEach(async () => {
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => {
+      if (url.startsWith("https://img.test/")) return new Response(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+      if (url.endsWith("/images/generations")) {
+        return generationResponse("gen");
+      }
+      return jsonResponse({ code: "bad", message: "Upscale failed" }, 400);
+    }));
+
+    const client = testClient();
+    mcpClient = await connectServer((server) => registerPipelineTools(server, client));
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should return the completed steps and the error when a step fails", async () => {
+    const result = await mcpClient.callTool({
+      name: "run_pipeline",
+      arguments: { steps: [{ tool: "generate_image", prompt: "a fox", colors: ["#ff0000"] }, { tool: "crisp_upscale" }] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("Pipeline stopped at step 2 of 2 (40 credits used)");
+    expect(text(result)).toContain("1. generate_image: https://img.test/gen");
+    expect(text(result)).toContain("Upscale failed");
+    expect(result.structuredContent).toMatchObject({ credits: 40, completed: false, failed_step: { step: 2, tool: "crisp_upscale" } });
+
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+    expect(body.controls).toEqual({ colors: [{ rgb: [255, 0, 0] }] });
+  });
+
+  it("should require an image on a first processing step", async () => {
+    const result = await mcpClient.callTool({ name: "run_pipeline", arguments: { steps: [{ tool: "vectorize_image" }] } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("needs an image");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject images on later steps", async () => {
+    const result = await mcpClient.callTool({
+      name: "run_pipeline",
+      arguments: { steps: [{ tool: "generate_image", prompt: "a fox" }, { tool: "vectorize_image", image: "https://img.test/x" }] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("takes its image from step 1");
+  });
+
+  it("should estimate the whole pipeline on a dry run", async () => {
+    const result = await mcpClient.callTool({
+      name: "run_pipeline",
+      arguments: {
+        steps: [{ tool: "generate_image", prompt: "a fox" }, { tool: "remove_background" }, { tool: "vectorize_image" }],
+        dry_run: true,
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(text(result)).toContain("Estimated cost: 60 credits");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should check a dry run against each step's tool budget", async () => {
+    const budget = new CreditBudget({ perTool: { vectorize_image: 5 } });
+    const client = testClient({ budget });
+    const budgetClient = await connectServer((server) => registerPipelineTools(server, client));
+
+    const result = await budgetClient.callTool({
+      name: "run_pipeline",
+      arguments: { steps: [{ tool: "generate_image", prompt: "a fox" }, { tool: "vectorize_image" }], dry_run: true },
+    });
+    await budgetClient.close();
+
+    expect(text(result)).toContain("Budget: would be refused. Credit vectorize_image budget exceeded");
+    expect(result.structuredContent).toMatchObject({ within_budget: false });
+  });
+});
@@ -0,0 +1,243 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod/v4";
+import { buildControls, type ControlsInput } from "../controls.js";
+import { estimateCost, isGenerationTool, type CostEstimate, type CostedTool } from "../cost.js";
+import { resolveMaskInput, type MaskSpec } from "../mask.js";
+import { MAX_PIPELINE_STEPS, runPipeline, type PipelineResult, type PipelineStep } from "../pipeline.js";
+import { progressReporter } from "../progress.js";
+import type { RecraftClient, RequestPreview } from "../recraft-client.js";
+import type { ServerOptions } from "../server.js";
+import { toErrorResult, toTextResult } from "../tool-result.js";
+import { budgetRefusal, resolveImageResultOptions, toImageToolResult } from "../image-result.js";
+import { backgroundShape, withBackground } from "./jobs.js";
+import { maskInputSchema } from "./masks.js";
+import {
+  checkSubstyle,
+  controlsShape,
+  imageFormatEnum,
+  modelEnum,
+  responseFormatSchema,
+  saveToSchema,
+  sizeEnum,
+  styleEnum,
+  substyleEnum,
+} from "./generation.js";
+
+const imageSchema = z.string().min(1).optional().describe(
+  "Source image as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result. First step only; later steps use the previous step's output.",
+);
+
+const maskSchema = maskInputSchema.describe("Grayscale mask as a URL, base64-encoded string, local file path, image_id:<id> of an earlier result, or an inline { width, height, shapes } spec (see create_mask).");
+
+const promptSchema = z.string().min(1).describe("Text prompt for this step.");
+
+const generationShape = {
+  model: modelEnum.optional(),
+  style: styleEnum.optional(),
+  substyle: substyleEnum.optional(),
+  style_id: z.string().uuid().optional(),
+  negative_prompt: z.string().optional(),
+  ...controlsShape,
+  image_format: imageFormatEnum.optional(),
+  random_seed: z.number().int().optional(),
+};
+
+const processingStep = <T extends string>(tool: T) =>
+  z.object({ tool: z.literal(tool), image: imageSchema, image_format: imageFormatEnum.optional() });
+
+const stepSchema = z.discriminatedUnion("tool", [
+  z.object({ tool: z.literal("generate_image"), prompt: promptSchema, size: sizeEnum.optional(), ...generationShape })
+    .superRefine(checkSubstyle),
+  z.object({
+    tool: z.literal("image_to_image"),
+    image: imageSchema,
+    prompt: promptSchema,
+    strength: z.number().min(0).max(1).describe("Change magnitude from 0.0 (minimal) to 1.0 (maximum)."),
+    ...generationShape,
+  }).superRefine(checkSubstyle),
+  z.object({ tool: z.literal("inpaint_image"), image: imageSchema, mask: maskSchema, prompt: promptSchema, ...generationShape })
+    .superRefine(checkSubstyle),
+  z.object({ tool: z.literal("replace_background"), image: imageSchema, prompt: promptSchema, ...generationShape })
+    .superRefine(checkSubstyle),
+  z.object({ tool: z.literal("generate_background"), image: imageSchema, mask: maskSchema, prompt: promptSchema, ...generationShape })
+    .superRefine(checkSubstyle),
+  processingStep("remove_background"),
+  z.object({ tool: z.literal("erase_region"), image: imageSchema, mask: maskSchema, image_format: imageFormatEnum.optional() }),
+  processingStep("vectorize_image"),
+  processingStep("crisp_upscale"),
+  processingStep("creative_upscale"),
+]);
+
+type StepInput = z.infer<typeof stepSchema>;
+
+/** Schema refinement checking that images enter the pipeline only at the first step. */
+const checkStepImages = (value: { steps: StepInput[] }, ctx: z.RefinementCtx): void => {
+  value.steps.forEach((step, index) => {
+    const hasImage = "image" in step && step.image !== undefined;
+    if (index === 0 && step.tool !== "generate_image" && !hasImage) {
+      ctx.addIssue({ code: "custom", message: `The first step (${step.tool}) needs an image.`, path: ["steps", 0, "image"] });
+    }
+    if (index > 0 && step.tool === "generate_image") {
+      ctx.addIssue({ code: "custom", message: "generate_image can only be the first step.", path: ["steps", index, "tool"] });
+    }
+    if (index > 0 && hasImage) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Step ${index + 1} takes its image from step ${index}; remove its image.`,
+        path: ["steps", index, "image"],
+      });
+    }
+  });
+};
+
+// Inline mask specs become PNG data before the step reaches the client
+const withMask = <T extends { mask: string | MaskSpec }>({ mask, ...params }: T) => ({ ...params, mask: resolveMaskInput(mask) });
+
+const withControls = <T extends ControlsInput>({ artistic_level, no_text, colors, background_color, ...params }: T) => ({
+  ...params,
+  controls: buildControls({ artistic_level, no_text, colors, background_color }),
+});
+
+const toPipelineStep = (input: StepInput): PipelineStep => {
+  switch (input.tool) {
+    case "generate_image": {
+      const { tool, ...params } = input;
+      return { tool, params: withControls(params) };
+    }
+    case "image_to_image": {
+      const { tool, ...params } = input;
+      return { tool, params: withControls(params) };
+    }
+    case "replace_background": {
+      const { tool, ...params } = input;
+      return { tool, params: withControls(params) };
+    }
+    case "inpaint_image": {
+      const { tool, ...params } = input;
+      return { tool, params: withMask(withControls(params)) };
+    }
+    case "generate_background": {
+      const { tool, ...params } = input;
+      return { tool, params: withMask(withControls(params)) };
+    }
+    case "erase_region": {
+      const { tool, ...params } = input;
+      return { tool, params: withMask(params) };
+    }
+    default: {
+      const { tool, ...params } = input;
+      return { tool, params };
+    }
+  }
+};
+
+const stepLabel = ({ tool, params }: PipelineStep, index: number): string =>
+  `  ${index + 1}. ${tool}${"prompt" in params ? `: "${params.prompt}"` : ""}`;
+
+const formatPipelineResult = (steps: PipelineStep[], result: PipelineResult): string => {
+  const lines = [
+    result.failure
+      ? `Pipeline stopped at step ${result.failure.step} of ${steps.length} (${result.credits} credits used)`
+      : `Pipeline complete: ${steps.length} step${steps.length !== 1 ? "s" : ""} (${result.credits} credits used)`,
+  ];
+
+  for (const done of result.steps) {
+    lines.push(`  ${done.step}. ${done.tool}: ${done.url ?? "(base64)"}`, `     ID: ${done.image_id} (${done.credits} credits)`);
+  }
+  if (result.failure) {
+    lines.push(`  ${result.failure.step}. ${result.failure.tool}: failed`);
+    const skipped = steps.slice(result.failure.step);
+    if (skipped.length > 0) lines.push(`  Not run: ${skipped.map((step) => step.tool).join(", ")}`);
+    const [error] = toErrorResult(result.failure.error).content;
+    lines.push("", `Step ${result.failure.step} error: ${error.text}`);
+  }
+
+  return lines.join("\n");
+};
+
+const toPipelineDryRunResult = async (client: RecraftClient, steps: PipelineStep[]) => {
+  const previews: Array<{ tool: CostedTool; request: RequestPreview; estimate: CostEstimate }> = [];
+  const estimates: Record<string, number> = {};
+  for (const step of steps) {
+    // Every step makes one image, as runPipeline asks generations for exactly one
+    const params = isGenerationTool(step.tool) ? { ...step.params, n: 1 } : step.params;
+    const estimate = estimateCost(step.tool, { ...step.params, n: 1 });
+    previews.push({ tool: step.tool, request: await client.previewRequest(step.tool, params), estimate });
+    estimates[step.tool] = (estimates[step.tool] ?? 0) + estimate.credits;
+  }
+  const credits = previews.reduce((sum, preview) => sum + preview.estimate.credits, 0);
+
+  const budgetError = await budgetRefusal(client, estimates);
+
+  return toTextResult(
+    [
+      `Dry run: run_pipeline would run ${steps.length} step${steps.length !== 1 ? "s" : ""} (nothing was sent)`,
+      ...steps.map((step, i) => `${stepLabel(step, i)} (${previews[i].estimate.credits} credits)`),
+      `  Estimated cost: ${credits} credits`,
+      budgetError ? `  Budget: would be refused. ${budgetError}` : "  Budget: within limits",
+    ].join("\n"),
+    { dry_run: true, steps: previews, credits, within_budget: budgetError === undefined } as unknown as Record<string, unknown>,
+  );
+};
+
+export const registerPipelineTools = (
+  server: McpServer,
+  client: RecraftClient,
+  options: ServerOptions = {},
+): void => {
+  server.registerTool(
+    "run_pipeline",
+    {
+      title: "Run Pipeline",
+      description:
+        "Run several generation and processing steps in one call, feeding each step's output image into the next " +
+        "(for example generate_image → remove_background → vectorize_image). Each step takes the same parameters as " +
+        "the tool it names, minus the image after the first step. Reports every intermediate image and the total credits; " +
+        "if a step fails, the pipeline stops and returns the steps that completed.",
+      annotations: { readOnlyHint: false, openWorldHint: true },
+
+      inputSchema: z.object({
+        steps: z.array(stepSchema).min(1).max(MAX_PIPELINE_STEPS).describe(
+          `Steps to run in order (1-${MAX_PIPELINE_STEPS}). Generation steps produce a single image.`,
+        ),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: z.boolean().optional().describe(
+          "Validate every step and return the requests plus the estimated total credits, without calling the API.",
+        ),
+        ...backgroundShape,
+      }).superRefine(checkStepImages),
+    },
+    withBackground(server, options, "run_pipeline", async ({ steps: inputs, response_format, save_to, dry_run }, extra) => {
+      try {
+        const steps = inputs.map(toPipelineStep);
+        const resultOptions = resolveImageResultOptions("run_pipeline", options, { save_to, response_format }, { signal: extra.signal });
+        if (dry_run) return await toPipelineDryRunResult(client, steps);
+
+        const report = progressReporter(extra);
+        const result = await runPipeline(client, steps, {
+          signal: extra.signal,
+          onStep: (index, tool) => report?.(index, steps.length, `Step ${index + 1} of ${steps.length}: ${tool}`),
+        });
+
+        const structured = {
+          steps: result.steps,
+          credits: result.credits,
+          completed: result.failure === undefined,
+          ...(result.failure
+            ? { failed_step: { step: result.failure.step, tool: result.failure.tool } }
+            : {}),
+        };
+        const output = await toImageToolResult(
+          formatPipelineResult(steps, result),
+          structured as unknown as Record<string, unknown>,
+          result.images,
+          resultOptions,
+        );
+        return result.failure ? { ...output, isError: true } : output;
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    }),
+  );
+};
@@ -1,10 +1,20 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import * as z from "zod/v4";
 import type { RecraftClient } from "../recraft-client.js";
+import { resolveMaskInput } from "../mask.js";
+import { toCallOptions } from "../progress.js";
+import type { ServerOptions } from "../server.js";
 import type { ProcessImageResponse } from "../types.js";
-import { toTextResult, toErrorResult } from "../tool-result.js";
-
-const imageFormatEnum = z.enum(["webp", "png"]);
+import { toErrorResult } from "../tool-result.js";
+import {
+  resolveImageResultOptions,
+  toDryRunResult,
+  toImageToolResult,
+  type ImageResultOptions,
+} from "../image-result.js";
+import { dryRunSchema, imageFormatEnum, responseFormatSchema, saveToSchema } from "./generation.js";
+import { backgroundShape, withBackground } from "./jobs.js";
+import { maskInputSchema } from "./masks.js";
 
 const formatProcessResponse = (response: ProcessImageResponse, operation: string): string => {
   const img = response.image;
@@ -15,33 +25,58 @@ const formatProcessResponse = (response: ProcessImageResponse, operation: string
   ].join("\n");
 };
 
-export const registerProcessingTools = (server: McpServer, client: RecraftClient): void => {
+const toProcessResult = (
+  operation: string,
+  response: ProcessImageResponse,
+  options: ImageResultOptions,
+) =>
+  toImageToolResult(
+    formatProcessResponse(response, operation),
+    {
+      created: response.created,
+      credits: response.credits,
+      image: response.image,
+    } as unknown as Record<string, unknown>,
+    [response.image],
+    options,
+  );
+
+export const registerProcessingTools = (
+  server: McpServer,
+  client: RecraftClient,
+  options: ServerOptions = {},
+): void => {
   server.registerTool(
     "remove_background",
     {
       title: "Remove Background",
       description:
         "Remove the background from an image, leaving a transparent background. " +
-        "Provide the image as a URL or base64-encoded string.",
+        "Provide the image as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result.",
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        image: z.string().min(1).describe("Image as a URL or base64-encoded string."),
+        image: z.string().min(1).describe("Image as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result."),
         image_format: imageFormatEnum.optional().describe("Output format: webp or png."),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
       }),
     },
-    async ({ image, image_format }) => {
+    withBackground(server, options, "remove_background", async ({ image, image_format, response_format, save_to, dry_run }, extra) => {
       try {
-        const response = await client.removeBackground({ image, image_format });
-        return toTextResult(formatProcessResponse(response, "Background removal"), {
-          created: response.created,
-          credits: response.credits,
-          image: response.image,
-        } as unknown as Record<string, unknown>);
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("remove_background", options, { save_to, image_format, response_format }, call);
+        const params = { image, image_format };
+        if (dry_run) return await toDryRunResult(client, "remove_background", params);
+
+        const response = await client.removeBackground(params, call);
+        return await toProcessResult("Background removal", response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -54,23 +89,28 @@ export const registerProcessingTools = (server: McpServer, client: RecraftClient
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        image: z.string().min(1).describe("Source image as a URL or base64-encoded string."),
-        mask: z.string().min(1).describe("Grayscale mask as a URL or base64-encoded string. White = erase, black = preserve."),
+        image: z.string().min(1).describe("Source image as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result."),
+        mask: maskInputSchema.describe("Grayscale mask as a URL, base64-encoded string, local file path, image_id:<id> of an earlier result, or an inline { width, height, shapes } spec (see create_mask). White = erase, black = preserve."),
         image_format: imageFormatEnum.optional().describe("Output format."),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
       }),
     },
-    async ({ image, mask, image_format }) => {
+    withBackground(server, options, "erase_region", async ({ image, mask, image_format, response_format, save_to, dry_run }, extra) => {
       try {
-        const response = await client.eraseRegion({ image, mask, image_format });
-        return toTextResult(formatProcessResponse(response, "Region erase"), {
-          created: response.created,
-          credits: response.credits,
-          image: response.image,
-        } as unknown as Record<string, unknown>);
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("erase_region", options, { save_to, image_format, response_format }, call);
+        const params = { image, mask: resolveMaskInput(mask), image_format };
+        if (dry_run) return await toDryRunResult(client, "erase_region", params);
+
+        const response = await client.eraseRegion(params, call);
+        return await toProcessResult("Region erase", response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -83,21 +123,26 @@ export const registerProcessingTools = (server: McpServer, client: RecraftClient
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        image: z.string().min(1).describe("Image to vectorize as a URL or base64-encoded string."),
+        image: z.string().min(1).describe("Image to vectorize as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result."),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
       }),
     },
-    async ({ image }) => {
+    withBackground(server, options, "vectorize_image", async ({ image, response_format, save_to, dry_run }, extra) => {
       try {
-        const response = await client.vectorize({ image });
-        return toTextResult(formatProcessResponse(response, "Vectorization"), {
-          created: response.created,
-          credits: response.credits,
-          image: response.image,
-        } as unknown as Record<string, unknown>);
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("vectorize_image", options, { save_to, response_format }, call);
+        const params = { image };
+        if (dry_run) return await toDryRunResult(client, "vectorize_image", params);
+
+        const response = await client.vectorize(params, call);
+        return await toProcessResult("Vectorization", response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -110,22 +155,27 @@ export const registerProcessingTools = (server: McpServer, client: RecraftClient
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        image: z.string().min(1).describe("Image to upscale as a URL or base64-encoded string. Max 5MB, <4MP."),
+        image: z.string().min(1).describe("Image to upscale as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result. Max 5MB, <4MP."),
         image_format: imageFormatEnum.optional().describe("Output format."),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
       }),
     },
-    async ({ image, image_format }) => {
+    withBackground(server, options, "crisp_upscale", async ({ image, image_format, response_format, save_to, dry_run }, extra) => {
       try {
-        const response = await client.crispUpscale({ image, image_format });
-        return toTextResult(formatProcessResponse(response, "Crisp upscale"), {
-          created: response.created,
-          credits: response.credits,
-          image: response.image,
-        } as unknown as Record<string, unknown>);
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("crisp_upscale", options, { save_to, image_format, response_format }, call);
+        const params = { image, image_format };
+        if (dry_run) return await toDryRunResult(client, "crisp_upscale", params);
+
+        const response = await client.crispUpscale(params, call);
+        return await toProcessResult("Crisp upscale", response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -138,21 +188,26 @@ export const registerProcessingTools = (server: McpServer, client: RecraftClient
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        image: z.string().min(1).describe("Image to upscale as a URL or base64-encoded string. Max 5MB, <16MP."),
+        image: z.string().min(1).describe("Image to upscale as a URL, base64-encoded string, local file path, or image_id:<id> of an earlier result. Max 5MB, <16MP."),
         image_format: imageFormatEnum.optional().describe("Output format."),
+        response_format: responseFormatSchema,
+        save_to: saveToSchema,
+        dry_run: dryRunSchema,
+        ...backgroundShape,
       }),
     },
-    async ({ image, image_format }) => {
+    withBackground(server, options, "creative_upscale", async ({ image, image_format, response_format, save_to, dry_run }, extra) => {
       try {
-        const response = await client.creativeUpscale({ image, image_format });
-        return toTextResult(formatProcessResponse(response, "Creative upscale"), {
-          created: response.created,
-          credits: response.credits,
-          image: response.image,
-        } as unknown as Record<string, unknown>);
+        const call = toCallOptions(extra);
+        const resultOptions = resolveImageResultOptions("creative_upscale", options, { save_to, image_format, response_format }, call);
+        const params = { image, image_format };
+        if (dry_run) return await toDryRunResult(client, "creative_upscale", params);
+
+        const response = await client.creativeUpscale(params, call);
+        return await toProcessResult("Creative upscale", response, resultOptions);
       } catch (error) {
         return toErrorResult(error);
       }
-    },
+    }),
   );
 };
@@ -0,0 +1,40 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as z from "zod/v4";
+import type { RecraftClient } from "../recraft-client.js";
+import { toTextResult, toErrorResult } from "../tool-result.js";
+
+const formatLimit = (limit: number, unit: string, available?: number): string =>
+  limit > 0 ? `${limit} ${unit} (${available} available now)` : `no limit on ${unit}`;
+
+export const registerRateLimitTools = (server: McpServer, client: RecraftClient): void => {
+  server.registerTool(
+    "get_rate_limit_status",
+    {
+      title: "Get Rate Limit Status",
+      description:
+        "Show the client-side rate limiter that keeps calls under Recraft's API limits: " +
+        "how many requests are queued, the capacity available right now, and how long calls have waited.",
+      annotations: { readOnlyHint: true, openWorldHint: false },
+
+      inputSchema: z.object({}),
+    },
+    async () => {
+      try {
+        const status = client.rateLimiter.status();
+
+        return toTextResult(
+          [
+            "Rate limits",
+            `  Requests: ${formatLimit(status.limits.requestsPerSecond, "requests/sec", status.requests_available)}`,
+            `  Images: ${formatLimit(status.limits.imagesPerMinute, "images/min", status.images_available)}`,
+            `  Queued: ${status.queued}`,
+            `  Delayed requests: ${status.delayed_requests} (last wait ${status.last_wait_ms}ms, longest ${status.max_wait_ms}ms, total ${status.total_wait_ms}ms)`,
+          ].join("\n"),
+          status as unknown as Record<string, unknown>,
+        );
+      } catch (error) {
+        return toErrorResult(error);
+      }
+    },
+  );
+};
@@ -1,15 +1,11 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import * as z from "zod/v4";
 import type { RecraftClient } from "../recraft-client.js";
+import { toCallOptions } from "../progress.js";
 import { toTextResult, toErrorResult } from "../tool-result.js";
+import { IMAGE_STYLES } from "../models.js";
 
-const styleEnum = z.enum([
-  "realistic_image",
-  "digital_illustration",
-  "vector_illustration",
-  "icon",
-  "logo_raster",
-]);
+const styleEnum = z.enum(IMAGE_STYLES);
 
 export const registerStyleTools = (server: McpServer, client: RecraftClient): void => {
   server.registerTool(
@@ -22,13 +18,14 @@ export const registerStyleTools = (server: McpServer, client: RecraftClient): vo
       annotations: { readOnlyHint: false, openWorldHint: true },
 
       inputSchema: z.object({
-        images: z.array(z.string().min(1)).min(1).max(5).describe("1-5 reference images as URLs or base64-encoded strings."),
+        images: z.array(z.string().min(1)).min(1).max(5).describe("1-5 reference images as URLs, base64-encoded strings, local file paths, or image_id:<id> references to earlier results."),
         style: styleEnum.describe("Base style category for the custom style."),
       }),
     },
-    async ({ images, style }) => {
+    async ({ images, style }, extra) => {
       try {
-        const response = await client.createStyle({ images, style });
+        const call = toCallOptions(extra);
+        const response = await client.createStyle({ images, style }, call);
         return toTextResult(
           `Custom style created successfully.\n  Style ID: ${response.id}\n  Use this ID with the style_id parameter in generation tools.`,
           { id: response.id },
@@ -50,9 +47,10 @@ export const registerStyleTools = (server: McpServer, client: RecraftClient): vo
         style_id: z.string().uuid().describe("The style ID to retrieve."),
       }),
     },
-    async ({ style_id }) => {
+    async ({ style_id }, extra) => {
       try {
-        const response = await client.getStyle(style_id);
+        const call = toCallOptions(extra);
+        const response = await client.getStyle(style_id, call);
         const lines = [
           `Style: ${response.id}`,
           response.model ? `  Model: ${response.model}` : null,
@@ -76,9 +74,10 @@ export const registerStyleTools = (server: McpServer, client: RecraftClient): vo
 
       inputSchema: z.object({}),
     },
-    async () => {
+    async (_args, extra) => {
       try {
-        const response = await client.listStyles();
+        const call = toCallOptions(extra);
+        const response = await client.listStyles(call);
         const styles = response.styles ?? [];
 
         if (styles.length === 0) {
@@ -109,9 +108,10 @@ export const registerStyleTools = (server: McpServer, client: RecraftClient): vo
 
       inputSchema: z.object({}),
     },
-    async () => {
+    async (_args, extra) => {
       try {
-        const response = await client.listBasicStyles();
+        const call = toCallOptions(extra);
+        const response = await client.listBasicStyles(call);
         const styles = response.styles ?? [];
 
         if (styles.length === 0) {
@@ -144,9 +144,10 @@ export const registerStyleTools = (server: McpServer, client: RecraftClient): vo
         style_id: z.string().uuid().describe("The style ID to delete."),
       }),
     },
-    async ({ style_id }) => {
+    async ({ style_id }, extra) => {
       try {
-        await client.deleteStyle(style_id);
+        const call = toCallOptions(extra);
+        await client.deleteStyle(style_id, call);
         return toTextResult(`Style ${style_id} deleted successfully.`);
       } catch (error) {
         return toErrorResult(error);
@@ -163,9 +164,10 @@ export const registerStyleTools = (server: McpServer, client: RecraftClient): vo
 
       inputSchema: z.object({}),
     },
-    async () => {
+    async (_args, extra) => {
       try {
-        const response = await client.getCurrentUser();
+        const call = toCallOptions(extra);
+        const response = await client.getCurrentUser(call);
         return toTextResult(
           [
             `User: ${response.name}`,
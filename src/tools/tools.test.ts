@@ -4,6 +4,14 @@ import { RecraftClient } from "../recraft-client.js";
 import { registerGenerationTools } from "./generation.js";
 import { registerProcessingTools } from "./processing.js";
 import { registerStyleTools } from "./styles.js";
+import { registerBudgetTools } from "./budget.js";
+import { registerRateLimitTools } from "./rate-limit.js";
+import { registerModelTools } from "./models.js";
+import { registerPipelineTools } from "./pipeline.js";
+import { registerBatchTools } from "./batch.js";
+import { registerJobTools } from "./jobs.js";
+import { registerMaskTools } from "./masks.js";
+import { JobQueue } from "../jobs.js";
 
 describe("tool registration", () => {
   let server: McpServer;
@@ -31,11 +39,47 @@ describe("tool registration", () => {
     expect(() => registerStyleTools(server, client)).not.toThrow();
   });
 
+  it("should register budget tools without errors", () => {
+    expect(() => registerBudgetTools(server, client)).not.toThrow();
+  });
+
+  it("should register rate limit tools without errors", () => {
+    expect(() => registerRateLimitTools(server, client)).not.toThrow();
+  });
+
+  it("should register model tools without errors", () => {
+    expect(() => registerModelTools(server)).not.toThrow();
+  });
+
+  it("should register pipeline tools without errors", () => {
+    expect(() => registerPipelineTools(server, client)).not.toThrow();
+  });
+
+  it("should register batch tools without errors", () => {
+    expect(() => registerBatchTools(server, client)).not.toThrow();
+  });
+
+  it("should register mask tools without errors", () => {
+    expect(() => registerMaskTools(server, client)).not.toThrow();
+  });
+
+  it("should register job tools only with a job queue", () => {
+    registerJobTools(server, client);
+    expect(() => registerJobTools(server, client, { jobs: new JobQueue() })).not.toThrow();
+  });
+
   it("should register all tools together without conflicts", () => {
     expect(() => {
       registerGenerationTools(server, client);
       registerProcessingTools(server, client);
       registerStyleTools(server, client);
+      registerBudgetTools(server, client);
+      registerRateLimitTools(server, client);
+      registerModelTools(server);
+      registerPipelineTools(server, client);
+      registerBatchTools(server, client);
+      registerMaskTools(server, client);
+      registerJobTools(server, client, { jobs: new JobQueue() });
     }).not.toThrow();
   });
 });
@@ -8,31 +8,114 @@ export type ImageStyle =
   | "logo_raster";
 
 export type ImageSubStyle =
+  | "2d_art_poster"
+  | "2d_art_poster_2"
+  | "3d"
+  | "80s"
+  | "antiquarian"
   | "b_and_w"
-  | "enterprise"
-  | "hdr"
-  | "natural_light"
-  | "studio_portrait"
-  | "hard_flash"
-  | "motion_blur"
-  | "evening_light"
-  | "hand_drawn"
-  | "pixel_art"
-  | "grain"
-  | "kawaii"
-  | "watercolor"
-  | "pop_art"
-  | "noir"
+  | "bold_fantasy"
   | "bold_stroke"
+  | "broken_line"
+  | "cartoon"
   | "chemistry"
+  | "child_book"
+  | "child_books"
+  | "colored_outline"
+  | "colored_shapes"
+  | "colored_shapes_gradient"
+  | "colored_stencil"
+  | "contour_pop_art"
+  | "cosmics"
+  | "cover"
+  | "crosshatch"
   | "cutout"
+  | "depressive"
+  | "digital_engraving"
+  | "doodle_fill"
+  | "doodle_line_art"
+  | "doodle_offset_fill"
   | "editorial"
-  | "mosaic"
   | "emblem_graffiti"
   | "emblem_pop_art"
   | "emblem_punk"
   | "emblem_stamp"
-  | "emblem_vintage";
+  | "emblem_vintage"
+  | "emotional_flat"
+  | "engraving"
+  | "engraving_color"
+  | "enterprise"
+  | "evening_light"
+  | "expressionism"
+  | "faded_nostalgia"
+  | "flat_2"
+  | "forest_life"
+  | "freehand_details"
+  | "glow"
+  | "grain"
+  | "grain_20"
+  | "graphic_intensity"
+  | "hand_drawn"
+  | "hand_drawn_outline"
+  | "handmade_3d"
+  | "hard_comics"
+  | "hard_flash"
+  | "hdr"
+  | "infantile_sketch"
+  | "infographical"
+  | "kawaii"
+  | "line_art"
+  | "line_circuit"
+  | "linocut"
+  | "long_shadow"
+  | "marker_outline"
+  | "modern_folk"
+  | "mosaic"
+  | "motion_blur"
+  | "multicolor"
+  | "mystic_naturalism"
+  | "naivector"
+  | "natural_light"
+  | "natural_tones"
+  | "neon_calm"
+  | "noir"
+  | "nostalgic_pastel"
+  | "offset_fill"
+  | "organic_calm"
+  | "outline"
+  | "outline_details"
+  | "outline_gradient"
+  | "pastel_gradient"
+  | "pastel_sketch"
+  | "pixel_art"
+  | "plastic"
+  | "pop_art"
+  | "pop_renaissance"
+  | "psychedelic"
+  | "real_life_glow"
+  | "retro_realism"
+  | "retro_snapshot"
+  | "roundish_flat"
+  | "seamless"
+  | "segmented_colors"
+  | "sharp_contrast"
+  | "street_art"
+  | "studio_portrait"
+  | "tablet_sketch"
+  | "thin"
+  | "uneven_fill"
+  | "urban_drama"
+  | "urban_glow"
+  | "urban_sketching"
+  | "vanilla_dreams"
+  | "vector_photo"
+  | "village_realism"
+  | "vivid_shapes"
+  | "voxel"
+  | "warm_folk"
+  | "watercolor"
+  | "young_adult_book"
+  | "young_adult_book_2";
 
 export type RecraftModel =
   | "recraftv4"
@@ -62,13 +145,15 @@ export type ImageSize =
 export type ResponseFormat = "url" | "b64_json";
 export type ImageFormat = "webp" | "png";
 
+export type RgbColor = [number, number, number];
+
 export interface ColorWeight {
-  rgb: [number, number, number];
+  rgb: RgbColor;
   weight?: number;
 }
 
 export interface BackgroundColor {
-  rgb: [number, number, number];
+  rgb: RgbColor;
 }
 
 export interface Controls {
@@ -113,6 +198,7 @@ export interface ImageToImageParams {
   response_format?: ResponseFormat;
   negative_prompt?: string;
   controls?: Controls;
+  text_layout?: TextLayoutItem[];
   image_format?: ImageFormat;
   random_seed?: number;
 }
@@ -129,6 +215,7 @@ export interface InpaintParams {
   response_format?: ResponseFormat;
   negative_prompt?: string;
   controls?: Controls;
+  text_layout?: TextLayoutItem[];
   image_format?: ImageFormat;
   random_seed?: number;
 }
@@ -143,6 +230,8 @@ export interface ReplaceBackgroundParams {
   n?: number;
   response_format?: ResponseFormat;
   negative_prompt?: string;
+  controls?: Controls;
+  text_layout?: TextLayoutItem[];
   image_format?: ImageFormat;
   random_seed?: number;
 }
@@ -158,6 +247,8 @@ export interface GenerateBackgroundParams {
   n?: number;
   response_format?: ResponseFormat;
   negative_prompt?: string;
+  controls?: Controls;
+  text_layout?: TextLayoutItem[];
   image_format?: ImageFormat;
   random_seed?: number;
 }